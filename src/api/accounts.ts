@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import type { Account, AccountInfo, Organization } from '../types';
+import { store, getSession, getSessionCookies, getBaseUrl, makeRequest, DEFAULT_BACKEND_PROFILE } from './client';
+import { parseOrganizationList } from './schemas';
+
+// Signed-in accounts. Each sign-in gets its own persistent session partition
+// so cookies never mix; only accounts for the active backend are visible.
+
+function activeBackend(): string {
+  return store.get('settings')?.activeBackendProfile || DEFAULT_BACKEND_PROFILE;
+}
+
+// Accounts for the active backend
+export function getAccounts(): Account[] {
+  const backend = activeBackend();
+  return Object.values(store.get('accounts') || {}).filter(a => a.backend === backend);
+}
+
+// Look up an account (undefined when it belongs to another backend)
+export function getAccount(id: string | null | undefined): Account | undefined {
+  const account = id ? store.get('accounts')?.[id] : undefined;
+  return account?.backend === activeBackend() ? account : undefined;
+}
+
+export function saveAccount(account: Account): Account {
+  store.set('accounts', { ...store.get('accounts'), [account.id]: account });
+  return account;
+}
+
+// Account new windows and Spotlight bind to
+export function getDefaultAccount(): Account | undefined {
+  return getAccount(store.get('defaultAccountId')) || getAccounts()[0];
+}
+
+export function setDefaultAccount(id: string): void {
+  store.set('defaultAccountId', id);
+}
+
+// Forget an account and sign its session out
+export async function removeAccount(id: string): Promise<void> {
+  const account = store.get('accounts')?.[id];
+  if (!account) return;
+
+  const { [id]: _removed, ...rest } = store.get('accounts') || {};
+  store.set('accounts', rest);
+  if (store.get('defaultAccountId') === id) {
+    store.delete('defaultAccountId');
+  }
+  await getSession(account.partition).clearStorageData({ storages: ['cookies'] });
+}
+
+// Fresh partition for a new sign-in
+export function createPartition(): string {
+  return `persist:account-${crypto.randomUUID()}`;
+}
+
+// Organizations the account's session belongs to
+export async function fetchOrganizations(partition: string): Promise<Organization[]> {
+  const result = await makeRequest(`${getBaseUrl()}/api/organizations`, 'GET', undefined, { partition });
+  if (result.status !== 200) {
+    throw new Error(`Failed to get organizations: ${result.status}`);
+  }
+  return parseOrganizationList(result.data);
+}
+
+// Organization list that always includes the org we're using
+async function loadOrganizations(partition: string, orgId: string, fallback: Organization[] = []): Promise<Organization[]> {
+  let organizations = fallback;
+  try {
+    organizations = await fetchOrganizations(partition);
+  } catch (error) {
+    console.warn('[Accounts] Failed to list organizations:', error instanceof Error ? error.message : error);
+  }
+  return organizations.some(o => o.uuid === orgId) ? organizations : [{ uuid: orgId, name: '' }, ...organizations];
+}
+
+// Create an account for a partition that just signed in
+export async function registerAccount(partition: string, orgId: string): Promise<Account> {
+  return saveAccount({
+    id: crypto.randomUUID(),
+    backend: activeBackend(),
+    partition,
+    orgId,
+    organizations: await loadOrganizations(partition, orgId)
+  });
+}
+
+// Re-fetch an account's organizations (joined or left since sign-in)
+export async function refreshAccount(account: Account): Promise<Account> {
+  const organizations = await loadOrganizations(account.partition, account.orgId, account.organizations);
+  return saveAccount({ ...account, organizations });
+}
+
+// Adopt a session signed in before accounts existed (default partition)
+export async function migrateLegacySession(): Promise<void> {
+  if (getAccounts().length > 0) return;
+
+  const { sessionKey, orgId } = await getSessionCookies('');
+  if (!sessionKey || !orgId) return;
+
+  const account = await registerAccount('', orgId);
+  setDefaultAccount(account.id);
+  console.log('[Accounts] Migrated existing session to account', account.id);
+}
+
+// Renderer view of an account
+export function toAccountInfo(account: Account): AccountInfo {
+  const org = account.organizations.find(o => o.uuid === account.orgId);
+  return {
+    id: account.id,
+    orgId: account.orgId,
+    orgName: org?.name || account.orgId,
+    organizations: account.organizations
+  };
+}
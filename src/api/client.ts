@@ -1,17 +1,73 @@
-import { net, session } from 'electron';
+import { app, net, session } from 'electron';
 import Store from 'electron-store';
 import crypto from 'crypto';
-import type { StoreSchema, ApiResponse, AttachmentPayload, UploadFilePayload } from '../types';
+import fs from 'fs';
+import type { StoreSchema, ApiResponse, AttachmentPayload, InlineAttachment, UploadFilePayload, BackendProfile, UploadResponse, TitleResponse, ResponseStyle, ToolToggles, ThinkingPreference, ConnectionTestResult } from '../types';
+import { parseUploadResponse, parseTitleResponse, SchemaError } from './schemas';
+import { NORMAL_STYLE } from './styles';
+import { DEFAULT_TOOLS, buildToolList } from './tools';
+import { buildThinkingFields } from './thinking';
+import { resolveLocale, resolveTimeZone, buildAcceptLanguage } from './locale';
+import { inspectRequest } from './inspector';
+import { answerProxyAuth } from './network';
+import { withRetry, errorForStatus, networkError, parseRetryAfter, isRetryableStatus, bindAbortSignal, type RequestOptions } from './policy';
+import { parseRateLimitBody } from '../streaming/parser';
+import { SSEDecoder, type SSEEvent } from '../streaming/sse';
+import { startSSERecording, type SSERecording } from '../streaming/recording';
+
+// Built-in backend profiles (user profiles in settings are merged over these)
+const DEFAULT_BACKEND_PROFILE = 'claude.ai';
+const DEFAULT_BACKEND_PROFILES: Record<string, BackendProfile> = {
+  'claude.ai': {
+    name: 'claude.ai',
+    baseUrl: 'https://claude.ai',
+    cookieDomain: '.claude.ai'
+  },
+  mock: {
+    name: 'Local mock server',
+    baseUrl: 'http://localhost:8787',
+    cookieDomain: 'localhost',
+    mockServer: true
+  }
+};
 
-const BASE_URL = 'https://claude.ai';
+// Upload bodies are written in chunks of this size
+const UPLOAD_CHUNK_SIZE = 256 * 1024;
 
 // Store instance
 const store = new Store<StoreSchema>() as Store<StoreSchema> & {
   get<K extends keyof StoreSchema>(key: K): StoreSchema[K];
   set<K extends keyof StoreSchema>(key: K, value: StoreSchema[K]): void;
+  delete<K extends keyof StoreSchema>(key: K): void;
   clear(): void;
 };
 
+// Get all backend profiles, built-ins first
+export function getBackendProfiles(): Record<string, BackendProfile> {
+  const settings = store.get('settings');
+  return { ...DEFAULT_BACKEND_PROFILES, ...settings?.backendProfiles };
+}
+
+// Get the active backend profile, falling back to claude.ai
+export function getBackendProfile(): BackendProfile {
+  const settings = store.get('settings');
+  const profiles = getBackendProfiles();
+  return profiles[settings?.activeBackendProfile || DEFAULT_BACKEND_PROFILE] || DEFAULT_BACKEND_PROFILES[DEFAULT_BACKEND_PROFILE];
+}
+
+// Base URL of the active backend, without trailing slash
+export function getBaseUrl(): string {
+  return getBackendProfile().baseUrl.replace(/\/+$/, '');
+}
+
+// Apply the active profile's header overrides (set last so they win)
+function applyProfileHeaders(request: Electron.ClientRequest): void {
+  const headers = getBackendProfile().headers || {};
+  for (const [name, value] of Object.entries(headers)) {
+    request.setHeader(name, value);
+  }
+}
+
 // Generate stable device/anonymous IDs
 export function getDeviceId(): string {
   let deviceId = store.get('deviceId');
@@ -31,71 +87,106 @@ export function getAnonymousId(): string {
   return anonId;
 }
 
-// Convert various binary inputs to a Node.js Buffer
-function toBuffer(data: UploadFilePayload['data']): Buffer {
+// Convert various binary inputs to a Node.js Buffer, sharing their memory
+// instead of copying where possible
+export function toBuffer(data: NonNullable<UploadFilePayload['data']>): Buffer {
   if (Buffer.isBuffer(data)) return data;
-  if (data instanceof ArrayBuffer) return Buffer.from(new Uint8Array(data));
-  if (data instanceof Uint8Array) return Buffer.from(data);
+  if (data instanceof ArrayBuffer) return Buffer.from(data);
+  if (data instanceof Uint8Array) return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
   return Buffer.from(data);
 }
 
-// Normalize upload response into AttachmentPayload
-function normalizeAttachmentResponse(data: any, fallback: UploadFilePayload): AttachmentPayload {
-  const doc = data?.document || data || {};
-  const documentId = doc.document_id || doc.file_uuid || doc.uuid || doc.id || doc.file_id;
-  const fileUrl =
-    doc.file_url ||
-    doc.preview_url ||
-    doc.thumbnail_url ||
-    doc.url ||
-    data?.download_url;
-
-  if (!documentId) {
-    throw new Error('Upload response missing document identifier');
-  }
+// All of a file's bytes, from the payload or from disk
+export async function readUploadData(file: UploadFilePayload): Promise<Buffer> {
+  return file.path ? fs.promises.readFile(file.path) : toBuffer(file.data ?? []);
+}
 
-  const normalizedUrl = fileUrl
-    ? (fileUrl.startsWith('http') ? fileUrl : `${BASE_URL}${fileUrl}`)
-    : undefined;
+// The file part of an upload body. Files on disk are read a chunk at a time,
+// so only the chunk in flight is held in memory.
+async function openUploadSource(file: UploadFilePayload): Promise<{ size: number; chunks: () => AsyncIterable<Buffer> }> {
+  if (file.path) {
+    const filePath = file.path;
+    const stats = await fs.promises.stat(filePath);
+    if (!stats.isFile()) throw new Error(`${file.name} is not a file`);
+    return {
+      size: stats.size,
+      chunks: () => fs.createReadStream(filePath, { highWaterMark: UPLOAD_CHUNK_SIZE }) as AsyncIterable<Buffer>
+    };
+  }
 
+  const buffer = toBuffer(file.data ?? []);
   return {
-    document_id: documentId,
-    file_name: doc.file_name || doc.fileName || fallback.name,
-    file_size: doc.size_bytes || doc.file_size || doc.fileSize || fallback.size,
-    file_type: doc.file_type || doc.mime_type || doc.fileType || doc.file_kind || fallback.type || 'application/octet-stream',
-    file_url: normalizedUrl,
-    extracted_content: doc.extracted_content || doc.extract || doc.extracted_text
+    size: buffer.length,
+    chunks: async function* () {
+      for (let offset = 0; offset < buffer.length; offset += UPLOAD_CHUNK_SIZE) {
+        yield buffer.subarray(offset, offset + UPLOAD_CHUNK_SIZE);
+      }
+    }
   };
 }
 
-// Upload a single attachment and normalize the response
-export async function prepareAttachmentPayload(file: UploadFilePayload): Promise<AttachmentPayload> {
-  const orgId = await getOrgId();
-  if (!orgId) {
-    throw new Error('Not authenticated');
-  }
+// Map a validated upload response onto the AttachmentPayload the UI uses
+function toAttachmentPayload(upload: UploadResponse, fallback: UploadFilePayload): AttachmentPayload {
+  const fileUrl = upload.preview_url || upload.thumbnail_url;
 
-  const boundary = '----ElectronFormBoundary' + crypto.randomBytes(16).toString('hex');
-  const fileBuffer = toBuffer(file.data);
-  const body = Buffer.concat([
-    Buffer.from(`--${boundary}\r\n`),
-    Buffer.from(`Content-Disposition: form-data; name="file"; filename="${file.name}"\r\n`),
-    Buffer.from(`Content-Type: ${file.type || 'application/octet-stream'}\r\n\r\n`),
-    fileBuffer,
-    Buffer.from(`\r\n--${boundary}--\r\n`)
-  ]);
+  return {
+    document_id: upload.file_uuid,
+    file_name: upload.file_name || fallback.name,
+    file_size: upload.size_bytes ?? fallback.size,
+    file_type: upload.file_type || fallback.type || 'application/octet-stream',
+    file_url: fileUrl ? (fileUrl.startsWith('http') ? fileUrl : `${getBaseUrl()}${fileUrl}`) : undefined,
+    extracted_content: upload.extracted_content
+  };
+}
 
-  return new Promise((resolve, reject) => {
-    const request = net.request({
-      url: `${BASE_URL}/api/${orgId}/upload`,
-      method: 'POST',
-      useSessionCookies: true,
+// Write a chunk and wait until Electron has taken it. That's when it's handed
+// to the network stack, not when it's on the wire. An abort ends the wait,
+// since an aborted request may never call back.
+function writeChunk(request: Electron.ClientRequest, chunk: Buffer, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => resolve();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    request.write(chunk, undefined, () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
     });
+  });
+}
+
+// Upload a single attachment and normalize the response (retried only when rate limited).
+// The multipart body is streamed in chunks; onProgress gets the file bytes handed
+// to the network stack, which can run ahead of what the server has received.
+export async function prepareAttachmentPayload(
+  orgId: string,
+  file: UploadFilePayload,
+  options: { onProgress?: (loaded: number, total: number) => void } & RequestOptions = {}
+): Promise<AttachmentPayload> {
+  const boundary = '----ElectronFormBoundary' + crypto.randomBytes(16).toString('hex');
+  const source = await openUploadSource(file);
+  const head = Buffer.from(
+    `--${boundary}\r\n` +
+    `Content-Disposition: form-data; name="file"; filename="${file.name}"\r\n` +
+    `Content-Type: ${file.type || 'application/octet-stream'}\r\n\r\n`
+  );
+  const tail = Buffer.from(`\r\n--${boundary}--\r\n`);
+
+  const baseUrl = getBaseUrl();
+
+  return withRetry(() => new Promise<AttachmentPayload>((resolve, reject) => {
+    const url = `${baseUrl}/api/${orgId}/upload`;
+    const request = openRequest('POST', url, options.partition);
+    // Stream the body instead of letting Electron buffer it
+    request.chunkedEncoding = true;
 
     request.setHeader('accept', '*/*');
+    request.setHeader('accept-language', buildAcceptLanguage(getLocale()));
     request.setHeader('content-type', `multipart/form-data; boundary=${boundary}`);
-    request.setHeader('origin', BASE_URL);
-    request.setHeader('referer', `${BASE_URL}/new`);
+    request.setHeader('origin', baseUrl);
+    request.setHeader('referer', `${baseUrl}/new`);
     request.setHeader('anthropic-client-platform', 'web_claude_ai');
     request.setHeader('anthropic-device-id', getDeviceId());
     request.setHeader('anthropic-anonymous-id', getAnonymousId());
@@ -103,7 +194,9 @@ export async function prepareAttachmentPayload(file: UploadFilePayload): Promise
       'user-agent',
       'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
     );
+    applyProfileHeaders(request);
 
+    const unbindAbort = bindAbortSignal(request, options.signal, reject);
     let responseData = '';
     let statusCode = 0;
 
@@ -115,70 +208,154 @@ export async function prepareAttachmentPayload(file: UploadFilePayload): Promise
       });
 
       response.on('end', () => {
+        unbindAbort();
+        if (statusCode !== 200) {
+          reject(errorForStatus(statusCode, 'Upload failed', responseData, parseRetryAfter(response.headers['retry-after'])));
+          return;
+        }
         try {
           const parsed = responseData ? JSON.parse(responseData) : null;
-          if (statusCode !== 200) {
-            reject(new Error(`Upload failed: ${statusCode} - ${responseData}`));
-            return;
-          }
-          const attachment = normalizeAttachmentResponse(parsed, file);
+          const attachment = toAttachmentPayload(parseUploadResponse(parsed), file);
           console.log(`[API] Uploaded attachment: ${attachment.file_name} (${attachment.file_size} bytes)`);
           resolve(attachment);
         } catch (err) {
-          reject(new Error(`Upload parse failed: ${err instanceof Error ? err.message : String(err)}`));
+          reject(err instanceof SchemaError ? err : new Error(`Upload parse failed: ${err instanceof Error ? err.message : String(err)}`));
         }
       });
+
+      // The server dropped the connection partway through the response
+      response.on('aborted', () => {
+        unbindAbort();
+        reject(networkError(new Error('Upload response was cut off'), true));
+      });
+
+      response.on('error', (error: Error) => {
+        unbindAbort();
+        reject(networkError(error, true));
+      });
     });
 
     request.on('error', (error) => {
-      reject(error);
+      unbindAbort();
+      reject(networkError(error));
     });
 
-    request.write(body);
-    request.end();
-  });
+    // Every await can end in an abort, which has already rejected
+    const { signal } = options;
+    const sendBody = async () => {
+      options.onProgress?.(0, source.size);
+      await writeChunk(request, head, signal);
+      let loaded = 0;
+      for await (const chunk of source.chunks()) {
+        if (signal?.aborted) return;
+        await writeChunk(request, chunk, signal);
+        if (signal?.aborted) return;
+        loaded += chunk.length;
+        options.onProgress?.(loaded, source.size);
+      }
+      if (signal?.aborted) return;
+      await writeChunk(request, tail, signal);
+      if (signal?.aborted) return;
+      request.end();
+    };
+
+    // Also reached when the file can't be read partway through
+    sendBody().catch((error: Error) => {
+      unbindAbort();
+      request.abort();
+      reject(networkError(error));
+    });
+  }), (err) => err.kind === 'rate_limited', options);
 }
 
 // Check if we have valid session cookies
-export async function isAuthenticated(): Promise<boolean> {
-  const cookies = await session.defaultSession.cookies.get({ domain: '.claude.ai' });
-  const sessionKey = cookies.find(c => c.name === 'sessionKey')?.value;
-  const orgId = cookies.find(c => c.name === 'lastActiveOrg')?.value;
+export async function isAuthenticated(partition?: string): Promise<boolean> {
+  const { sessionKey, orgId } = await getSessionCookies(partition);
   return !!(sessionKey && orgId);
 }
 
-// Get org ID from cookies
-export async function getOrgId(): Promise<string | null> {
-  const cookies = await session.defaultSession.cookies.get({ domain: '.claude.ai' });
-  return cookies.find(c => c.name === 'lastActiveOrg')?.value || null;
+// Locale from settings, falling back to the system locale
+export function getLocale(): string {
+  return resolveLocale(store.get('settings')?.locale, app.getLocale());
+}
+
+// Timezone from settings, falling back to the system timezone
+export function getTimeZone(): string {
+  return resolveTimeZone(store.get('settings')?.timezone);
+}
+
+// Session for an account partition (empty means the default session)
+export function getSession(partition?: string): Electron.Session {
+  return partition ? session.fromPartition(partition) : session.defaultSession;
+}
+
+// Request with an account's cookies, seen by the network inspector. Proxy
+// auth challenges get the stored credentials; without any the request fails.
+function openRequest(method: string, url: string, partition?: string): Electron.ClientRequest {
+  const request = net.request({
+    url,
+    method,
+    session: getSession(partition),
+    useSessionCookies: true,
+  });
+  inspectRequest(request, method, url);
+  request.on('login', (authInfo, callback) => {
+    if (!answerProxyAuth(authInfo, callback)) callback();
+  });
+  return request;
+}
+
+// Auth cookies for the active backend in a partition
+export async function getSessionCookies(partition?: string): Promise<{ sessionKey?: string; orgId?: string }> {
+  const cookies = await getSession(partition).cookies.get({ domain: getBackendProfile().cookieDomain });
+  return {
+    sessionKey: cookies.find(c => c.name === 'sessionKey')?.value,
+    orgId: cookies.find(c => c.name === 'lastActiveOrg')?.value
+  };
 }
 
 // Set common headers on a request
 function setCommonHeaders(request: Electron.ClientRequest): void {
   request.setHeader('accept', 'application/json, text/event-stream');
+  request.setHeader('accept-language', buildAcceptLanguage(getLocale()));
   request.setHeader('content-type', 'application/json');
-  request.setHeader('origin', BASE_URL);
+  request.setHeader('origin', getBaseUrl());
   request.setHeader('anthropic-client-platform', 'web_claude_ai');
   request.setHeader('anthropic-device-id', getDeviceId());
   request.setHeader('anthropic-anonymous-id', getAnonymousId());
   request.setHeader('user-agent', 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
+  applyProfileHeaders(request);
 }
 
-// Make authenticated request using Electron net (includes session cookies)
+// Make authenticated request using Electron net (includes session cookies).
+// Idempotent methods are retried on 5xx and network errors; POSTs only on 429.
 export async function makeRequest(
   url: string,
   method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
-  body?: object
+  body?: object,
+  options: RequestOptions = {}
+): Promise<ApiResponse> {
+  const idempotent = method !== 'POST';
+  return withRetry(
+    () => sendRequest(url, method, body, options),
+    (err) => err.kind === 'rate_limited' || (idempotent && (err.kind === 'server' || err.kind === 'network')),
+    options
+  );
+}
+
+// Single request attempt; retryable statuses reject so withRetry can see them
+function sendRequest(
+  url: string,
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+  body: object | undefined,
+  options: RequestOptions
 ): Promise<ApiResponse> {
   return new Promise((resolve, reject) => {
-    const request = net.request({
-      url,
-      method,
-      useSessionCookies: true,
-    });
+    const request = openRequest(method, url, options.partition);
 
     setCommonHeaders(request);
 
+    const unbindAbort = bindAbortSignal(request, options.signal, reject);
     let responseData = '';
     let statusCode = 0;
 
@@ -190,6 +367,11 @@ export async function makeRequest(
       });
 
       response.on('end', () => {
+        unbindAbort();
+        if (isRetryableStatus(statusCode)) {
+          reject(errorForStatus(statusCode, `${method} ${new URL(url).pathname} failed`, responseData, parseRetryAfter(response.headers['retry-after'])));
+          return;
+        }
         try {
           const data = responseData ? JSON.parse(responseData) : null;
           resolve({ status: statusCode, data });
@@ -200,7 +382,8 @@ export async function makeRequest(
     });
 
     request.on('error', (error) => {
-      reject(error);
+      unbindAbort();
+      reject(networkError(error));
     });
 
     if (body) {
@@ -216,111 +399,116 @@ export async function streamCompletion(
   conversationId: string,
   prompt: string,
   parentMessageUuid: string,
-  onData: (chunk: string) => void,
+  onEvent: (event: SSEEvent) => void,
   options: {
-    attachments?: AttachmentPayload[];
+    attachments?: InlineAttachment[];
     files?: Array<AttachmentPayload | string>;
     sync_sources?: unknown[];
-  } = {}
+    style?: ResponseStyle;
+    tools?: ToolToggles;
+    thinking?: ThinkingPreference;
+  } & RequestOptions = {}
 ): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const url = `${BASE_URL}/api/organizations/${orgId}/chat_conversations/${conversationId}/completion`;
+  const baseUrl = getBaseUrl();
 
-    const request = net.request({
-      url,
-      method: 'POST',
-      useSessionCookies: true,
-    });
+  // Safe to re-POST only while nothing of the stream has arrived
+  return withRetry(() => new Promise<void>((resolve, reject) => {
+    const url = `${baseUrl}/api/organizations/${orgId}/chat_conversations/${conversationId}/completion`;
+
+    const request = openRequest('POST', url, options.partition);
 
     request.setHeader('accept', 'text/event-stream, text/event-stream');
-    request.setHeader('accept-language', 'en-US,en;q=0.9');
+    request.setHeader('accept-language', buildAcceptLanguage(getLocale()));
     request.setHeader('content-type', 'application/json');
-    request.setHeader('origin', BASE_URL);
-    request.setHeader('referer', `${BASE_URL}/chat/${conversationId}`);
+    request.setHeader('origin', baseUrl);
+    request.setHeader('referer', `${baseUrl}/chat/${conversationId}`);
     request.setHeader('anthropic-client-platform', 'web_claude_ai');
     request.setHeader('anthropic-client-version', '1.0.0');
     request.setHeader('anthropic-device-id', getDeviceId());
     request.setHeader('anthropic-anonymous-id', getAnonymousId());
     request.setHeader('user-agent', 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
+    applyProfileHeaders(request);
 
     const files = (options.files || []).map((file) => typeof file === 'string' ? file : file.document_id);
 
     const body = {
       prompt,
       parent_message_uuid: parentMessageUuid === conversationId ? null : parentMessageUuid,
-      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-      personalized_styles: [{
-        type: 'default',
-        key: 'Default',
-        name: 'Normal',
-        nameKey: 'normal_style_name',
-        prompt: 'Normal',
-        summary: 'Default responses from Claude',
-        summaryKey: 'normal_style_summary',
-        isDefault: true
-      }],
-      locale: 'en-US',
-      tools: [
-        { type: 'web_search_v0', name: 'web_search' },
-        { type: 'artifacts_v0', name: 'artifacts' },
-        { type: 'repl_v0', name: 'repl' }
-      ],
+      timezone: getTimeZone(),
+      personalized_styles: [options.style || NORMAL_STYLE],
+      locale: getLocale(),
+      tools: buildToolList(options.tools || DEFAULT_TOOLS),
       attachments: options.attachments || [],
       files,
       sync_sources: options.sync_sources || [],
-      rendering_mode: 'messages'
+      rendering_mode: 'messages',
+      ...buildThinkingFields(options.thinking)
     };
 
+    let bodyReceived = false;
+    let recording: SSERecording | null = null;
+    const unbindAbort = bindAbortSignal(request, options.signal, (error) => {
+      recording?.end('aborted');
+      reject(error);
+    });
+
     request.on('response', (response) => {
       if (response.statusCode !== 200) {
         let errorData = '';
         response.on('data', (chunk) => { errorData += chunk.toString(); });
         response.on('end', () => {
-          reject(new Error(`Completion failed: ${response.statusCode} - ${errorData}`));
+          unbindAbort();
+          const error = errorForStatus(response.statusCode, 'Completion failed', errorData, parseRetryAfter(response.headers['retry-after']));
+          if (response.statusCode === 429) error.usageLimit = parseRateLimitBody(errorData);
+          reject(error);
         });
         return;
       }
 
-      let buffer = '';
+      const decoder = new SSEDecoder();
+      recording = startSSERecording(url, conversationId, prompt);
       response.on('data', (chunk) => {
-        buffer += chunk.toString();
-        // Process complete lines
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || ''; // Keep incomplete line in buffer
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            onData(line + '\n');
-          }
-        }
+        if (options.signal?.aborted) return;
+        bodyReceived = true;
+        recording?.write(chunk);
+        decoder.push(chunk).forEach(onEvent);
       });
 
       response.on('end', () => {
+        unbindAbort();
+        if (!options.signal?.aborted) decoder.end().forEach(onEvent);
+        recording?.end(options.signal?.aborted ? 'aborted' : 'complete');
         resolve();
       });
+
+      response.on('error', (error: Error) => {
+        unbindAbort();
+        recording?.end('error', error.message);
+        reject(networkError(error, bodyReceived));
+      });
     });
 
     request.on('error', (error) => {
-      reject(error);
+      unbindAbort();
+      recording?.end('error', error.message);
+      reject(networkError(error, bodyReceived));
     });
 
     request.write(JSON.stringify(body));
     request.end();
-  });
+  }), (err) => err.kind !== 'http' && err.usageLimit?.status !== 'exceeded_limit', options);
 }
 
 // Stop a streaming response
 export async function stopResponse(
   orgId: string,
-  conversationId: string
+  conversationId: string,
+  options: RequestOptions = {}
 ): Promise<void> {
-  const url = `${BASE_URL}/api/organizations/${orgId}/chat_conversations/${conversationId}/stop_response`;
+  const url = `${getBaseUrl()}/api/organizations/${orgId}/chat_conversations/${conversationId}/stop_response`;
 
   return new Promise((resolve, reject) => {
-    const request = net.request({
-      url,
-      method: 'POST',
-      useSessionCookies: true,
-    });
+    const request = openRequest('POST', url, options.partition);
 
     setCommonHeaders(request);
 
@@ -345,20 +533,56 @@ export async function generateTitle(
   orgId: string,
   conversationId: string,
   messageContent: string,
-  recentTitles: string[] = []
-): Promise<{ title: string }> {
-  const url = `${BASE_URL}/api/organizations/${orgId}/chat_conversations/${conversationId}/title`;
+  recentTitles: string[] = [],
+  options: RequestOptions = {}
+): Promise<TitleResponse> {
+  const url = `${getBaseUrl()}/api/organizations/${orgId}/chat_conversations/${conversationId}/title`;
   const result = await makeRequest(url, 'POST', {
     message_content: messageContent,
     recent_titles: recentTitles
-  });
+  }, options);
 
   if (result.status !== 202) {
     throw new Error(`Failed to generate title: ${result.status}`);
   }
 
-  return result.data as { title: string };
+  return parseTitleResponse(result.data);
+}
+
+// Check that the backend is reachable through the current network settings
+export async function testConnection(timeoutMs = 15000): Promise<ConnectionTestResult> {
+  const url = getBaseUrl();
+  const proxy = await session.defaultSession.resolveProxy(url);
+  const started = Date.now();
+
+  return new Promise((resolve) => {
+    const request = openRequest('GET', url);
+    const finish = (result: Omit<ConnectionTestResult, 'proxy' | 'durationMs'>) => {
+      clearTimeout(timer);
+      resolve({ ...result, proxy, durationMs: Date.now() - started });
+    };
+    const timer = setTimeout(() => {
+      request.abort();
+      finish({ ok: false, error: `No response after ${Math.round(timeoutMs / 1000)}s` });
+    }, timeoutMs);
+
+    request.on('response', (response) => {
+      // Any answer from the server means the route works; a 407 means the proxy turned us away
+      if (response.statusCode === 407) {
+        finish({ ok: false, status: 407, error: 'Proxy authentication failed' });
+      } else {
+        finish({ ok: true, status: response.statusCode });
+      }
+      response.on('data', () => {});
+    });
+
+    request.on('error', (error) => {
+      finish({ ok: false, error: error.message });
+    });
+
+    request.end();
+  });
 }
 
-// Export store and BASE_URL for use in other modules
-export { store, BASE_URL };
+// Export store and default profiles for use in other modules
+export { store, DEFAULT_BACKEND_PROFILE, DEFAULT_BACKEND_PROFILES };
@@ -0,0 +1,306 @@
+import crypto from 'crypto';
+import { app } from 'electron';
+import type { NetworkEntry, NetworkEvent } from '../types';
+import { SSEDecoder, type SSEEvent } from '../streaming/sse';
+
+// Opt-in network recorder. Every net.request in the client is passed through
+// inspectRequest, which captures headers, bodies, timings and SSE events for
+// the network inspector window. Secrets are redacted as they're captured, so
+// nothing sensitive is kept in memory or exported.
+
+// Oldest entries are dropped past this
+const MAX_ENTRIES = 500;
+// Bodies are cut off past this many bytes (the size still counts everything)
+const MAX_BODY_SIZE = 1024 * 1024;
+// Coalesce live updates for streaming responses
+const NOTIFY_INTERVAL_MS = 200;
+
+const REDACTED = '[redacted]';
+const SECRET_HEADER = /cookie|auth|token|secret|session|api-key/i;
+// Session keys (sk-ant-sid01-…) and API keys anywhere in a body or URL
+const SECRET_VALUE = /sk-ant-[A-Za-z0-9_-]+/g;
+// Credential fields in JSON, query strings and form bodies
+const SECRET_FIELD = /("?(?:sessionKey|session_key|api_?key|access_token|refresh_token|password)"?\s*[:=]\s*"?)([^"&,\s}]+)/gi;
+const TEXT_CONTENT = /^(text\/|application\/(json|x-ndjson|xml|javascript|x-www-form-urlencoded))|\+json|\+xml/i;
+
+let recording = false;
+let entries: NetworkEntry[] = [];
+const listeners = new Set<(entry: NetworkEntry) => void>();
+const pendingNotify = new Map<string, NodeJS.Timeout>();
+
+export function isRecording(): boolean {
+  return recording;
+}
+
+// Start or stop capturing new requests (already captured entries stay)
+export function setRecording(enabled: boolean): void {
+  recording = enabled;
+}
+
+export function getNetworkEntries(): NetworkEntry[] {
+  return entries;
+}
+
+export function clearNetworkEntries(): void {
+  pendingNotify.forEach(timer => clearTimeout(timer));
+  pendingNotify.clear();
+  entries = [];
+}
+
+// Subscribe to new and updated entries; returns the unsubscribe function
+export function onNetworkEntry(listener: (entry: NetworkEntry) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function redactText(text: string): string {
+  return text.replace(SECRET_VALUE, REDACTED).replace(SECRET_FIELD, `$1${REDACTED}`);
+}
+
+function redactHeaders(headers: Record<string, string | string[]>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const text = Array.isArray(value) ? value.join(', ') : String(value);
+    result[name.toLowerCase()] = SECRET_HEADER.test(name) ? REDACTED : redactText(text);
+  }
+  return result;
+}
+
+function notify(entry: NetworkEntry): void {
+  const timer = pendingNotify.get(entry.id);
+  if (timer) {
+    clearTimeout(timer);
+    pendingNotify.delete(entry.id);
+  }
+  listeners.forEach(listener => listener(entry));
+}
+
+function notifySoon(entry: NetworkEntry): void {
+  if (pendingNotify.has(entry.id)) return;
+  pendingNotify.set(entry.id, setTimeout(() => {
+    pendingNotify.delete(entry.id);
+    notify(entry);
+  }, NOTIFY_INTERVAL_MS));
+}
+
+// Collects body bytes up to MAX_BODY_SIZE
+class BodyCapture {
+  private chunks: Buffer[] = [];
+  private kept = 0;
+  size = 0;
+
+  add(chunk: Buffer | string): void {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+    this.size += buffer.length;
+    if (this.kept >= MAX_BODY_SIZE) return;
+    const part = buffer.subarray(0, MAX_BODY_SIZE - this.kept);
+    this.chunks.push(part);
+    this.kept += part.length;
+  }
+
+  // Redacted text, or a placeholder for binary content
+  text(contentType: string | undefined): string | undefined {
+    if (this.size === 0) return undefined;
+    if (contentType && !TEXT_CONTENT.test(contentType)) {
+      return `[${contentType.split(';')[0]} body, ${this.size} bytes]`;
+    }
+    const text = redactText(Buffer.concat(this.chunks).toString('utf-8'));
+    return this.size > this.kept ? `${text}\n[truncated, ${this.size} bytes total]` : text;
+  }
+}
+
+// Decodes a text/event-stream body into events as it arrives
+class EventCapture {
+  private decoder = new SSEDecoder();
+
+  constructor(private entry: NetworkEntry) {}
+
+  add(chunk: Buffer): void {
+    this.decoder.push(chunk).forEach(event => this.push(event));
+  }
+
+  flush(): void {
+    this.decoder.end().forEach(event => this.push(event));
+  }
+
+  private push({ event, id, data }: SSEEvent): void {
+    const captured: NetworkEvent = { time: Date.now() - this.entry.startedAt, event, data: redactText(data) };
+    if (id !== undefined) captured.id = id;
+    this.entry.events.push(captured);
+  }
+}
+
+// Capture a request. Call right after net.request, before any headers are
+// set, so everything that goes on the wire is seen. No-op when not recording.
+export function inspectRequest(request: Electron.ClientRequest, method: string, url: string): void {
+  if (!recording) return;
+
+  const entry: NetworkEntry = {
+    id: crypto.randomUUID(),
+    method,
+    url: redactText(url),
+    state: 'pending',
+    startedAt: Date.now(),
+    requestHeaders: {},
+    requestBodySize: 0,
+    responseHeaders: {},
+    responseBodySize: 0,
+    events: []
+  };
+  const requestBody = new BodyCapture();
+  const responseBody = new BodyCapture();
+  const elapsed = () => Date.now() - entry.startedAt;
+
+  entries.push(entry);
+  if (entries.length > MAX_ENTRIES) entries.splice(0, entries.length - MAX_ENTRIES);
+
+  const finish = (state: NetworkEntry['state'], error?: string) => {
+    if (entry.state !== 'pending') return;
+    entry.state = state;
+    entry.finishedAt = elapsed();
+    entry.error = error && redactText(error);
+    entry.requestBody = requestBody.text(entry.requestHeaders['content-type']);
+    entry.requestBodySize = requestBody.size;
+    entry.responseBody = responseBody.text(entry.responseHeaders['content-type']);
+    entry.responseBodySize = responseBody.size;
+    notify(entry);
+  };
+
+  const setHeader = request.setHeader.bind(request);
+  request.setHeader = (name: string, value: string) => {
+    Object.assign(entry.requestHeaders, redactHeaders({ [name]: value }));
+    setHeader(name, value);
+  };
+
+  const write = request.write.bind(request);
+  request.write = ((chunk: string | Buffer, ...rest: unknown[]) => {
+    requestBody.add(chunk);
+    return (write as (...args: unknown[]) => void)(chunk, ...rest);
+  }) as typeof request.write;
+
+  const end = request.end.bind(request);
+  request.end = ((chunk?: string | Buffer, ...rest: unknown[]) => {
+    if (chunk && typeof chunk !== 'function') requestBody.add(chunk);
+    return (end as (...args: unknown[]) => Electron.ClientRequest)(chunk, ...rest);
+  }) as typeof request.end;
+
+  request.on('response', (response) => {
+    entry.responseAt = elapsed();
+    entry.status = response.statusCode;
+    entry.responseHeaders = redactHeaders(response.headers);
+    const events = entry.responseHeaders['content-type']?.startsWith('text/event-stream') ? new EventCapture(entry) : null;
+    notify(entry);
+
+    response.on('data', (chunk: Buffer) => {
+      responseBody.add(chunk);
+      entry.responseBodySize = responseBody.size;
+      events?.add(chunk);
+      notifySoon(entry);
+    });
+    response.on('end', () => {
+      events?.flush();
+      finish('complete');
+    });
+    response.on('error', (error: Error) => {
+      events?.flush();
+      finish('failed', error.message);
+    });
+  });
+
+  request.on('abort', () => finish('aborted'));
+  request.on('error', (error) => finish('failed', error.message));
+  notify(entry);
+}
+
+function harHeaders(headers: Record<string, string>): Array<{ name: string; value: string }> {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+// HTTP Archive 1.2; SSE events go in the custom _events field
+export function toHar(list: NetworkEntry[]): object {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: app.getName(), version: app.getVersion() },
+      entries: list.map(entry => {
+        const total = entry.finishedAt ?? entry.responseAt ?? 0;
+        const wait = entry.responseAt ?? total;
+        let queryString: Array<{ name: string; value: string }> = [];
+        try {
+          queryString = Array.from(new URL(entry.url).searchParams, ([name, value]) => ({ name, value }));
+        } catch {
+          // Leave it empty for unparseable URLs
+        }
+        return {
+          startedDateTime: new Date(entry.startedAt).toISOString(),
+          time: total,
+          request: {
+            method: entry.method,
+            url: entry.url,
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: harHeaders(entry.requestHeaders),
+            queryString,
+            ...(entry.requestBody !== undefined ? {
+              postData: { mimeType: entry.requestHeaders['content-type'] || '', text: entry.requestBody }
+            } : {}),
+            headersSize: -1,
+            bodySize: entry.requestBodySize
+          },
+          response: {
+            status: entry.status ?? 0,
+            statusText: '',
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: harHeaders(entry.responseHeaders),
+            content: {
+              size: entry.responseBodySize,
+              mimeType: entry.responseHeaders['content-type'] || '',
+              ...(entry.responseBody !== undefined ? { text: entry.responseBody } : {})
+            },
+            redirectURL: '',
+            headersSize: -1,
+            bodySize: entry.responseBodySize
+          },
+          cache: {},
+          timings: { send: 0, wait, receive: total - wait },
+          _state: entry.state,
+          ...(entry.error ? { _error: entry.error } : {}),
+          ...(entry.events.length > 0 ? { _events: entry.events } : {})
+        };
+      })
+    }
+  };
+}
+
+// One line per request, response, SSE event and end, in wire order per request
+export function toNdjson(list: NetworkEntry[]): string {
+  const lines: object[] = [];
+  for (const entry of list) {
+    lines.push({
+      type: 'request',
+      id: entry.id,
+      time: new Date(entry.startedAt).toISOString(),
+      method: entry.method,
+      url: entry.url,
+      headers: entry.requestHeaders,
+      body: entry.requestBody
+    });
+    if (entry.responseAt !== undefined) {
+      lines.push({ type: 'response', id: entry.id, elapsed: entry.responseAt, status: entry.status, headers: entry.responseHeaders });
+    }
+    for (const event of entry.events) {
+      lines.push({ type: 'event', id: entry.id, elapsed: event.time, event: event.event, eventId: event.id, data: event.data });
+    }
+    lines.push({
+      type: 'end',
+      id: entry.id,
+      elapsed: entry.finishedAt,
+      state: entry.state,
+      size: entry.responseBodySize,
+      ...(entry.events.length === 0 ? { body: entry.responseBody } : {}),
+      ...(entry.error ? { error: entry.error } : {})
+    });
+  }
+  return lines.map(line => JSON.stringify(line)).join('\n') + '\n';
+}
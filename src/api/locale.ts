@@ -0,0 +1,45 @@
+// Locale and timezone sent with every request. An empty setting follows the
+// system, which is also what claude.ai uses to format dates in replies.
+
+const FALLBACK_LOCALE = 'en-US';
+
+// True when Intl knows the timezone name
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// True when the string is a well-formed BCP 47 language tag
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+// Configured locale, or the system locale when unset or invalid
+export function resolveLocale(setting: string | undefined, systemLocale?: string): string {
+  if (setting && isValidLocale(setting)) return Intl.getCanonicalLocales(setting)[0];
+  if (systemLocale && isValidLocale(systemLocale)) return Intl.getCanonicalLocales(systemLocale)[0];
+  return FALLBACK_LOCALE;
+}
+
+// Configured timezone, or the system timezone when unset or invalid
+export function resolveTimeZone(setting: string | undefined): string {
+  if (setting && isValidTimeZone(setting)) return setting;
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Accept-Language header for a locale, e.g. "de-DE,de;q=0.9,en;q=0.8"
+export function buildAcceptLanguage(locale: string): string {
+  const language = locale.split('-')[0];
+  const values = [locale];
+  if (language !== locale) values.push(`${language};q=0.9`);
+  if (language !== 'en') values.push('en;q=0.8');
+  return values.join(',');
+}
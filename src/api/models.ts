@@ -0,0 +1,108 @@
+import type { ModelCatalog, ModelInfo, ServerModel } from '../types';
+import { makeRequest, getBaseUrl } from './client';
+import { parseModelList } from './schemas';
+
+// Model catalog per org. Fetched from the server and cached; the bundled
+// list is used when that fails (older backends, offline) so there is always
+// something to pick from.
+
+// Refetch after this long
+const CATALOG_TTL_MS = 60 * 60 * 1000;
+// Try the server again this soon after a failed fetch
+const CATALOG_RETRY_MS = 5 * 60 * 1000;
+const DEFAULT_CONTEXT_WINDOW = 200000;
+
+export const BUNDLED_MODELS: ModelInfo[] = [
+  {
+    id: 'claude-opus-4-5-20251101',
+    name: 'Opus 4.5',
+    description: 'Most capable for complex work',
+    thinking: true,
+    vision: true,
+    contextWindow: 200000
+  },
+  {
+    id: 'claude-sonnet-4-5-20250929',
+    name: 'Sonnet 4.5',
+    description: 'Smart, efficient model for everyday use',
+    thinking: true,
+    vision: true,
+    contextWindow: 200000
+  },
+  {
+    id: 'claude-haiku-4-5-20251001',
+    name: 'Haiku 4.5',
+    description: 'Fastest for quick answers',
+    thinking: true,
+    vision: true,
+    contextWindow: 200000
+  }
+];
+
+const BUNDLED_DEFAULT_MODEL = 'claude-opus-4-5-20251101';
+
+export const BUNDLED_CATALOG: ModelCatalog = {
+  models: BUNDLED_MODELS,
+  defaultModel: BUNDLED_DEFAULT_MODEL,
+  quickModel: 'claude-haiku-4-5-20251001',
+  source: 'bundled'
+};
+
+const catalogs = new Map<string, { catalog: ModelCatalog; expiresAt: number }>();
+
+function toModelInfo(model: ServerModel): ModelInfo {
+  // Fill gaps from the bundled entry for the same model
+  const known = BUNDLED_MODELS.find(m => m.id === model.model);
+  return {
+    id: model.model,
+    name: model.name,
+    description: model.description ?? known?.description,
+    thinking: model.supports_thinking ?? known?.thinking ?? false,
+    vision: model.supports_vision ?? known?.vision ?? true,
+    contextWindow: model.context_window ?? known?.contextWindow ?? DEFAULT_CONTEXT_WINDOW
+  };
+}
+
+// The server marks the default; Spotlight gets the fastest (Haiku) model
+export function buildCatalog(list: ServerModel[]): ModelCatalog {
+  if (list.length === 0) return BUNDLED_CATALOG;
+  const models = list.map(toModelInfo);
+  const defaultModel = list.find(m => m.is_default)?.model
+    || models.find(m => m.id === BUNDLED_DEFAULT_MODEL)?.id
+    || models[0].id;
+  const quickModel = models.find(m => m.id.includes('haiku'))?.id || defaultModel;
+  return { models, defaultModel, quickModel, source: 'server' };
+}
+
+export async function getModelCatalog(orgId: string, partition: string, refresh = false): Promise<ModelCatalog> {
+  const cached = catalogs.get(orgId);
+  if (cached && !refresh && Date.now() < cached.expiresAt) {
+    return cached.catalog;
+  }
+
+  try {
+    const result = await makeRequest(`${getBaseUrl()}/api/organizations/${orgId}/models`, 'GET', undefined, { partition });
+    if (result.status !== 200) {
+      throw new Error(`Failed to get models: ${result.status}`);
+    }
+    const catalog = buildCatalog(parseModelList(result.data));
+    catalogs.set(orgId, { catalog, expiresAt: Date.now() + CATALOG_TTL_MS });
+    return catalog;
+  } catch (error) {
+    // Keep a previously fetched list over the bundled one
+    const catalog = cached?.catalog || BUNDLED_CATALOG;
+    console.warn(`[API] Using ${catalog.source} models:`, error instanceof Error ? error.message : error);
+    catalogs.set(orgId, { catalog, expiresAt: Date.now() + CATALOG_RETRY_MS });
+    return catalog;
+  }
+}
+
+// Fall back to the catalog default for models the org doesn't offer
+export function resolveModel(catalog: ModelCatalog, model: string | undefined): string {
+  return model && catalog.models.some(m => m.id === model) ? model : catalog.defaultModel;
+}
+
+// Forget cached catalogs (backend switched)
+export function clearModelCatalogs(): void {
+  catalogs.clear();
+}
@@ -0,0 +1,132 @@
+import fs from 'fs';
+import { X509Certificate } from 'crypto';
+import { safeStorage } from 'electron';
+import type { NetworkSettings, ProxyCredentials } from '../types';
+
+// Proxy and extra CA trust from settings. Applied to the default session and
+// to every account and sign-in partition, so API requests and the login
+// window take the same route and trust the same certificates.
+
+// Chromium verify-proc results
+const CERT_TRUSTED = 0;
+const CERT_USE_CHROMIUM_RESULT = -3;
+
+const PEM_BLOCK = /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g;
+
+let settings: NetworkSettings | null = null;
+let extraCAs: X509Certificate[] = [];
+let credentials: ProxyCredentials | null = null;
+const sessions = new Set<Electron.Session>();
+
+// Parse every certificate in a PEM bundle; throws if there are none
+export function loadCABundle(path: string): X509Certificate[] {
+  const pem = fs.readFileSync(path, 'utf-8');
+  const certs = (pem.match(PEM_BLOCK) || []).map(block => new X509Certificate(block));
+  if (certs.length === 0) {
+    throw new Error(`No PEM certificates found in ${path}`);
+  }
+  return certs;
+}
+
+function proxyConfig(network: NetworkSettings): Electron.ProxyConfig {
+  switch (network.proxyMode) {
+    case 'direct':
+      return { mode: 'direct' };
+    case 'pac':
+      return { mode: 'pac_script', pacScript: network.pacUrl };
+    case 'fixed':
+      return { mode: 'fixed_servers', proxyRules: network.proxyRules, proxyBypassRules: network.bypassList };
+    default:
+      return { mode: 'system' };
+  }
+}
+
+// Each certificate must be current and signed by the next one up, and the
+// chain must reach one of the extra CAs
+function trustedByExtraCA(certificate: Electron.Certificate, hostname: string): boolean {
+  const leaf = new X509Certificate(certificate.data);
+  if (!leaf.checkHost(hostname) && !leaf.checkIP(hostname)) return false;
+
+  const now = Date.now() / 1000;
+  let node: Electron.Certificate | undefined = certificate;
+  while (node) {
+    if (now < node.validStart || now > node.validExpiry) return false;
+    const cert = new X509Certificate(node.data);
+    if (extraCAs.some(ca => ca.fingerprint256 === cert.fingerprint256 || (cert.checkIssued(ca) && cert.verify(ca.publicKey)))) {
+      return true;
+    }
+    const issuer: Electron.Certificate | undefined = node.issuerCert;
+    if (!issuer || issuer.fingerprint === node.fingerprint) return false;
+    const issuerCert = new X509Certificate(issuer.data);
+    if (!cert.checkIssued(issuerCert) || !cert.verify(issuerCert.publicKey)) return false;
+    node = issuer;
+  }
+  return false;
+}
+
+// Only second-guess certificates Chromium rejected
+function verifyCertificate(request: Electron.Request, callback: (verificationResult: number) => void): void {
+  if (request.errorCode === 0) {
+    callback(CERT_USE_CHROMIUM_RESULT);
+    return;
+  }
+  try {
+    callback(trustedByExtraCA(request.certificate, request.hostname) ? CERT_TRUSTED : CERT_USE_CHROMIUM_RESULT);
+  } catch (error) {
+    console.warn('[Network] Certificate check failed:', error instanceof Error ? error.message : error);
+    callback(CERT_USE_CHROMIUM_RESULT);
+  }
+}
+
+async function configureSession(ses: Electron.Session): Promise<void> {
+  if (!settings) return;
+  await ses.setProxy(proxyConfig(settings));
+  ses.setCertificateVerifyProc(extraCAs.length > 0 ? verifyCertificate : null);
+  // Pooled connections would keep the old route
+  await ses.closeAllConnections();
+}
+
+// Apply the settings to every session seen so far and remember them for new
+// ones. Throws (changing nothing) if the CA bundle can't be read.
+export async function applyNetworkSettings(network: NetworkSettings): Promise<void> {
+  extraCAs = network.caBundlePath ? loadCABundle(network.caBundlePath) : [];
+  settings = network;
+  await Promise.all(Array.from(sessions, configureSession));
+}
+
+// Bring a session under the network settings (call for each new partition)
+export async function registerSession(ses: Electron.Session): Promise<void> {
+  if (sessions.has(ses)) return;
+  sessions.add(ses);
+  await configureSession(ses);
+}
+
+export function setProxyCredentials(value: ProxyCredentials | null): void {
+  credentials = value;
+}
+
+// Answer a proxy's auth challenge with the stored credentials. Returns false
+// (leaving the challenge alone) for servers or without credentials.
+export function answerProxyAuth(authInfo: { isProxy: boolean }, callback: (username?: string, password?: string) => void): boolean {
+  if (!authInfo.isProxy || !credentials) return false;
+  callback(credentials.username, credentials.password);
+  return true;
+}
+
+export function encryptCredentials(value: ProxyCredentials): string {
+  if (!safeStorage.isEncryptionAvailable()) {
+    throw new Error('Secure storage is not available on this system, so proxy credentials can\'t be saved');
+  }
+  return safeStorage.encryptString(JSON.stringify(value)).toString('base64');
+}
+
+export function decryptCredentials(stored: string | undefined): ProxyCredentials | null {
+  if (!stored || !safeStorage.isEncryptionAvailable()) return null;
+  try {
+    const value = JSON.parse(safeStorage.decryptString(Buffer.from(stored, 'base64')));
+    return typeof value?.username === 'string' && typeof value?.password === 'string' ? value : null;
+  } catch (error) {
+    console.warn('[Network] Could not decrypt proxy credentials:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
@@ -0,0 +1,42 @@
+// Registry of cancellable operations (completions, uploads), grouped by the
+// webContents that started them so a window can tear down everything it owns.
+const operations = new Map<number, Map<string, AbortController>>();
+
+// Register a new operation; an existing one under the same key is aborted first
+export function beginOperation(ownerId: number, key: string): AbortController {
+  let owned = operations.get(ownerId);
+  if (!owned) {
+    owned = new Map();
+    operations.set(ownerId, owned);
+  }
+
+  owned.get(key)?.abort();
+  const controller = new AbortController();
+  owned.set(key, controller);
+  return controller;
+}
+
+// Forget a finished operation (no-op if it was already replaced)
+export function endOperation(ownerId: number, key: string, controller: AbortController): void {
+  const owned = operations.get(ownerId);
+  if (owned?.get(key) !== controller) return;
+  owned.delete(key);
+  if (owned.size === 0) operations.delete(ownerId);
+}
+
+// Abort a single operation. Returns true if one was running
+export function abortOperation(ownerId: number, key: string): boolean {
+  const controller = operations.get(ownerId)?.get(key);
+  if (!controller) return false;
+  controller.abort();
+  endOperation(ownerId, key, controller);
+  return true;
+}
+
+// Abort everything a window owns (closed, reloaded or navigated away)
+export function abortOwnerOperations(ownerId: number): void {
+  const owned = operations.get(ownerId);
+  if (!owned) return;
+  owned.forEach(controller => controller.abort());
+  operations.delete(ownerId);
+}
@@ -0,0 +1,51 @@
+import type { OutboxItem } from '../types';
+import { store } from './client';
+
+// Offline outbox. Messages that couldn't be sent are persisted with
+// everything needed to send them later, and go out in order once the
+// connection is back.
+
+// How often to check whether the connection is back
+export const CONNECTIVITY_POLL_MS = 5000;
+
+export function getOutbox(): OutboxItem[] {
+  return store.get('outbox') || [];
+}
+
+export function getOutboxItem(id: string): OutboxItem | undefined {
+  return getOutbox().find(item => item.id === id);
+}
+
+export function addToOutbox(item: OutboxItem): OutboxItem {
+  store.set('outbox', [...getOutbox(), item]);
+  return item;
+}
+
+export function updateOutboxItem(id: string, changes: Partial<OutboxItem>): OutboxItem | undefined {
+  let updated: OutboxItem | undefined;
+  store.set('outbox', getOutbox().map(item => {
+    if (item.id !== id) return item;
+    updated = { ...item, ...changes };
+    return updated;
+  }));
+  return updated;
+}
+
+export function removeFromOutbox(id: string): OutboxItem | undefined {
+  const item = getOutboxItem(id);
+  if (item) store.set('outbox', getOutbox().filter(i => i.id !== id));
+  return item;
+}
+
+// Chain the rest of a conversation's queue onto the reply just received
+export function reparentOutbox(conversationId: string, parentMessageUuid: string): void {
+  store.set('outbox', getOutbox().map(item =>
+    item.conversationId === conversationId ? { ...item, parentMessageUuid, newConversation: undefined } : item
+  ));
+}
+
+// Messages caught mid-send when the app quit go back in the queue. The
+// server may have received them, which reloading the conversation will show.
+export function resetInterruptedSends(): void {
+  store.set('outbox', getOutbox().map(item => item.status === 'sending' ? { ...item, status: 'queued' } : item));
+}
@@ -0,0 +1,197 @@
+import type { ApiErrorInfo, ApiErrorKind, RetryNotice, StreamError, UsageLimit } from '../types';
+
+// Retry tuning for a request
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+// Never wait longer than this, even if the server asks for it
+const MAX_RETRY_AFTER_MS = 120000;
+
+// Per-request options shared by the request builders
+export interface RequestOptions {
+  policy?: RetryPolicy;
+  onRetry?: (notice: RetryNotice) => void;
+  signal?: AbortSignal;
+  // Session partition whose cookies authenticate the request (default session when unset)
+  partition?: string;
+}
+
+// Error thrown once a request has failed for good
+export class ApiRequestError extends Error {
+  kind: ApiErrorKind;
+  status?: number;
+  retryAfterMs?: number;
+  // Set when part of the response body was already received (never safe to re-POST)
+  bodyReceived: boolean;
+  // Quota details when a 429 is a usage limit rather than a transient rate limit
+  usageLimit?: UsageLimit;
+  attempts = 1;
+
+  constructor(kind: ApiErrorKind, message: string, options: { status?: number; retryAfterMs?: number; bodyReceived?: boolean } = {}) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.bodyReceived = options.bodyReceived || false;
+  }
+
+  toInfo(): ApiErrorInfo {
+    return {
+      kind: this.kind,
+      status: this.status,
+      message: this.message,
+      retryAfterMs: this.retryAfterMs,
+      attempts: this.attempts,
+      ...(this.usageLimit ? { usageLimit: this.usageLimit } : {})
+    };
+  }
+}
+
+// 429 and 5xx (including 529 overloaded) are worth another try
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Build an ApiRequestError for a failed HTTP status
+export function errorForStatus(status: number, label: string, body: string, retryAfterMs?: number): ApiRequestError {
+  const kind: ApiErrorKind = status === 429 ? 'rate_limited' : status >= 500 ? 'server' : 'http';
+  return new ApiRequestError(kind, `${label}: ${status}${body ? ` - ${body}` : ''}`, { status, retryAfterMs });
+}
+
+// Wrap a low-level network failure
+export function networkError(error: Error, bodyReceived = false): ApiRequestError {
+  return new ApiRequestError('network', error.message, { bodyReceived });
+}
+
+// Wrap an `error` event that ended a stream (the response had already begun)
+export function streamEventError(error: StreamError): ApiRequestError {
+  const kind: ApiErrorKind = error.type === 'rate_limit_error' ? 'rate_limited' : 'server';
+  return new ApiRequestError(kind, error.message, { status: error.type === 'overloaded_error' ? 529 : undefined, bodyReceived: true });
+}
+
+// Error for a request cancelled through its AbortSignal
+export function abortedError(): ApiRequestError {
+  return new ApiRequestError('aborted', 'Request aborted');
+}
+
+// Tear down a net request when the signal fires. Returns a cleanup function
+// to call once the request settles so the listener doesn't outlive it.
+export function bindAbortSignal(
+  request: Electron.ClientRequest,
+  signal: AbortSignal | undefined,
+  reject: (error: ApiRequestError) => void
+): () => void {
+  if (!signal) return () => {};
+
+  const onAbort = () => {
+    request.abort();
+    reject(abortedError());
+  };
+
+  if (signal.aborted) {
+    onAbort();
+    return () => {};
+  }
+
+  signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
+
+// Sleep that wakes early (and rejects) when the signal fires
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortedError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortedError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+export function parseRetryAfter(header: string | string[] | undefined): number | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.min(Math.max(0, seconds * 1000), MAX_RETRY_AFTER_MS);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.min(Math.max(0, date - Date.now()), MAX_RETRY_AFTER_MS);
+  }
+
+  return undefined;
+}
+
+// Exponential backoff with full jitter; Retry-After wins when present
+export function computeBackoff(attempt: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+// Run an operation, retrying failures that canRetry() accepts
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  canRetry: (error: ApiRequestError) => boolean,
+  options: RequestOptions = {}
+): Promise<T> {
+  const policy = options.policy || DEFAULT_RETRY_POLICY;
+
+  for (let attempt = 1; ; attempt++) {
+    if (options.signal?.aborted) throw abortedError();
+
+    try {
+      return await operation(attempt);
+    } catch (err) {
+      if (!(err instanceof ApiRequestError)) throw err;
+      err.attempts = attempt;
+
+      if (err.kind === 'aborted' || attempt >= policy.maxAttempts || err.bodyReceived || !canRetry(err)) {
+        throw err;
+      }
+
+      const delayMs = computeBackoff(attempt, policy, err.retryAfterMs);
+      console.warn(`[API] ${err.message} - retrying in ${delayMs}ms (attempt ${attempt + 1}/${policy.maxAttempts})`);
+      options.onRetry?.({
+        attempt: attempt + 1,
+        maxAttempts: policy.maxAttempts,
+        delayMs,
+        error: err.toInfo()
+      });
+
+      await delay(delayMs, options.signal);
+    }
+  }
+}
+
+// Serialize any thrown value for the renderer
+export function toApiErrorInfo(error: unknown): ApiErrorInfo {
+  if (error instanceof ApiRequestError) return error.toInfo();
+  return {
+    kind: 'http',
+    message: error instanceof Error ? error.message : String(error),
+    attempts: 1
+  };
+}
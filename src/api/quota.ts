@@ -0,0 +1,46 @@
+import type { QuotaState, UsageLimit } from '../types';
+
+// Message quota per org, fed by message_limit stream events and usage-limit
+// errors. An exceeded limit is dropped when its window resets, so the UI
+// doesn't need to poll.
+
+const quotas = new Map<string, QuotaState>();
+const resetTimers = new Map<string, NodeJS.Timeout>();
+const listeners = new Set<(state: QuotaState) => void>();
+
+// setTimeout can't wait longer than ~24.8 days
+const MAX_TIMER_MS = 0x7fffffff;
+
+export function getQuota(orgId: string): QuotaState {
+  return quotas.get(orgId) || { orgId, limit: null, updatedAt: 0 };
+}
+
+// Subscribe to quota changes; returns the unsubscribe function
+export function onQuotaChange(listener: (state: QuotaState) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function setQuota(orgId: string, limit: UsageLimit | null): void {
+  clearTimeout(resetTimers.get(orgId));
+  resetTimers.delete(orgId);
+
+  const state: QuotaState = { orgId, limit, updatedAt: Date.now() };
+  quotas.set(orgId, state);
+
+  if (limit?.resetsAt && limit.status !== 'within_limit') {
+    const wait = Math.min(Math.max(0, limit.resetsAt - Date.now()), MAX_TIMER_MS);
+    resetTimers.set(orgId, setTimeout(() => setQuota(orgId, null), wait));
+  }
+
+  listeners.forEach(listener => listener(state));
+}
+
+// Record the latest limit the server reported for an org
+export function recordUsageLimit(orgId: string, limit: UsageLimit): void {
+  // Within limit with no count is nothing worth showing
+  const next = limit.status === 'within_limit' && limit.remaining === undefined ? null : limit;
+  if (JSON.stringify(quotas.get(orgId)?.limit ?? null) === JSON.stringify(next)) return;
+  console.log(`[Quota] ${orgId}: ${limit.status}${limit.remaining !== undefined ? `, ${limit.remaining} left` : ''}`);
+  setQuota(orgId, next);
+}
@@ -0,0 +1,341 @@
+import type {
+  ConversationSummary,
+  ConversationTree,
+  ChatMessage,
+  MessageContentBlock,
+  MessageFile,
+  InlineAttachment,
+  FileAsset,
+  MessageCitation,
+  UploadResponse,
+  TitleResponse,
+  Project,
+  ProjectDoc,
+  ProjectFile,
+  ResponseStyle,
+  StyleList,
+  Organization,
+  ServerModel
+} from '../types';
+
+// Validators for every claude.ai response the client consumes. A mismatch
+// throws SchemaError naming the endpoint and the offending path instead of
+// letting undefined fields leak into the UI.
+
+type Validator<T> = (value: unknown, path: string) => T;
+
+// Thrown when a response doesn't match its schema
+export class SchemaError extends Error {
+  path: string;
+  detail: string;
+  endpoint?: string;
+
+  constructor(path: string, detail: string) {
+    super(`${detail} at ${path || '(root)'}`);
+    this.name = 'SchemaError';
+    this.path = path;
+    this.detail = detail;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+  if (typeof value === 'object') return 'object';
+  return `${typeof value}${value === undefined ? '' : ` ${String(value)}`}`;
+}
+
+function fail(path: string, expected: string, value: unknown): never {
+  throw new SchemaError(path, `expected ${expected}, got ${describeValue(value)}`);
+}
+
+function join(path: string, key: string | number): string {
+  return typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+}
+
+const string: Validator<string> = (value, path) =>
+  typeof value === 'string' ? value : fail(path, 'string', value);
+
+const number: Validator<number> = (value, path) =>
+  typeof value === 'number' && !Number.isNaN(value) ? value : fail(path, 'number', value);
+
+const boolean: Validator<boolean> = (value, path) =>
+  typeof value === 'boolean' ? value : fail(path, 'boolean', value);
+
+const unknownValue: Validator<unknown> = (value) => value;
+
+// Missing or null becomes undefined
+function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : validator(value, path));
+}
+
+// Missing or null becomes the fallback
+function withDefault<T>(validator: Validator<T>, fallback: T): Validator<T> {
+  return (value, path) => (value === undefined || value === null ? fallback : validator(value, path));
+}
+
+function oneOf<T extends string>(...allowed: T[]): Validator<T> {
+  return (value, path) =>
+    allowed.includes(value as T) ? (value as T) : fail(path, allowed.map(a => `"${a}"`).join(' | '), value);
+}
+
+function array<T>(item: Validator<T>): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) return fail(path, 'array', value);
+    return value.map((entry, i) => item(entry, join(path, i)));
+  };
+}
+
+// Validates the listed fields; unknown fields pass through untouched
+function object<T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(path, 'object', value);
+    }
+    const input = value as Record<string, unknown>;
+    const output: Record<string, unknown> = { ...input };
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const result = shape[key](input[key], join(path, key));
+      if (result === undefined) {
+        delete output[key];
+      } else {
+        output[key] = result;
+      }
+    }
+    return output as T;
+  };
+}
+
+const conversationSummary = object<ConversationSummary>({
+  uuid: string,
+  name: withDefault(string, ''),
+  summary: optional(string),
+  model: optional(string),
+  is_starred: withDefault(boolean, false),
+  project_uuid: optional(string),
+  created_at: optional(string),
+  updated_at: string
+});
+
+const fileAsset = object<FileAsset>({
+  url: string,
+  file_variant: optional(string),
+  primary_color: optional(string),
+  image_width: optional(number),
+  image_height: optional(number)
+});
+
+const messageFile = object<MessageFile>({
+  file_kind: string,
+  file_uuid: string,
+  file_name: string,
+  created_at: optional(string),
+  thumbnail_url: optional(string),
+  preview_url: optional(string),
+  thumbnail_asset: optional(fileAsset),
+  preview_asset: optional(fileAsset)
+});
+
+const inlineAttachment = object<InlineAttachment>({
+  file_name: withDefault(string, ''),
+  file_type: withDefault(string, ''),
+  file_size: withDefault(number, 0),
+  extracted_content: withDefault(string, '')
+});
+
+const messageCitation = object<MessageCitation>({
+  uuid: optional(string),
+  url: optional(string),
+  title: optional(string),
+  start_index: optional(number),
+  end_index: optional(number)
+});
+
+const messageContentBlock = object<MessageContentBlock>({
+  type: string,
+  text: optional(string),
+  thinking: optional(string),
+  summaries: optional(array(object<{ summary: string }>({ summary: string }))),
+  id: optional(string),
+  tool_use_id: optional(string),
+  name: optional(string),
+  message: optional(string),
+  display_content: optional(object<{ text?: string }>({ text: optional(string) })),
+  input: unknownValue,
+  content: optional(array(unknownValue)),
+  is_error: optional(boolean),
+  citations: optional(array(messageCitation)),
+  start_timestamp: optional(string),
+  stop_timestamp: optional(string),
+  cut_off: optional(boolean)
+});
+
+const chatMessage = object<ChatMessage>({
+  uuid: string,
+  sender: oneOf('human', 'assistant'),
+  content: optional(array(messageContentBlock)),
+  text: optional(string),
+  created_at: optional(string),
+  parent_message_uuid: optional(string),
+  files: optional(array(messageFile)),
+  files_v2: optional(array(messageFile)),
+  attachments: optional(array(inlineAttachment))
+});
+
+const conversationTree: Validator<ConversationTree> = (value, path) => ({
+  ...conversationSummary(value, path),
+  ...object<Pick<ConversationTree, 'chat_messages' | 'current_leaf_message_uuid'>>({
+    chat_messages: withDefault(array(chatMessage), []),
+    current_leaf_message_uuid: optional(string)
+  })(value, path)
+});
+
+const uploadResponse = object<UploadResponse>({
+  file_uuid: string,
+  file_name: string,
+  size_bytes: optional(number),
+  file_kind: optional(string),
+  file_type: optional(string),
+  preview_url: optional(string),
+  thumbnail_url: optional(string),
+  extracted_content: optional(string)
+});
+
+const titleResponse = object<TitleResponse>({
+  title: string
+});
+
+const project = object<Project>({
+  uuid: string,
+  name: withDefault(string, ''),
+  description: optional(string),
+  prompt_template: optional(string),
+  is_private: optional(boolean),
+  is_starred: optional(boolean),
+  archived_at: optional(string),
+  created_at: optional(string),
+  updated_at: optional(string)
+});
+
+const projectDoc = object<ProjectDoc>({
+  uuid: string,
+  file_name: string,
+  content: optional(string),
+  created_at: optional(string)
+});
+
+const projectFile = object<ProjectFile>({
+  file_uuid: string,
+  file_name: string,
+  file_kind: optional(string),
+  created_at: optional(string),
+  thumbnail_url: optional(string),
+  preview_url: optional(string)
+});
+
+const responseStyle = object<ResponseStyle>({
+  type: oneOf('default', 'custom'),
+  key: string,
+  name: string,
+  prompt: withDefault(string, ''),
+  summary: withDefault(string, ''),
+  nameKey: optional(string),
+  summaryKey: optional(string),
+  isDefault: optional(boolean)
+});
+
+const styleList = object<StyleList>({
+  defaultStyles: withDefault(array(responseStyle), []),
+  customStyles: withDefault(array(responseStyle), [])
+});
+
+const organization = object<Organization>({
+  uuid: string,
+  name: withDefault(string, ''),
+  capabilities: optional(array(string))
+});
+
+const serverModel = object<ServerModel>({
+  model: string,
+  name: string,
+  description: optional(string),
+  supports_thinking: optional(boolean),
+  supports_vision: optional(boolean),
+  context_window: optional(number),
+  is_default: optional(boolean)
+});
+
+const modelList = object<{ models: ServerModel[] }>({
+  models: array(serverModel)
+});
+
+// Run a validator and tag failures with the endpoint they came from
+function parseResponse<T>(endpoint: string, validator: Validator<T>, data: unknown): T {
+  try {
+    return validator(data, '');
+  } catch (err) {
+    if (err instanceof SchemaError) {
+      err.endpoint = endpoint;
+      err.message = `Unexpected response from ${endpoint}: ${err.message}`;
+      console.error('[API]', err.message);
+    }
+    throw err;
+  }
+}
+
+export function parseConversationList(data: unknown): ConversationSummary[] {
+  return parseResponse('conversation list', array(conversationSummary), data);
+}
+
+export function parseConversationSummary(data: unknown): ConversationSummary {
+  return parseResponse('create conversation', conversationSummary, data);
+}
+
+export function parseConversationTree(data: unknown): ConversationTree {
+  return parseResponse('conversation tree', conversationTree, data);
+}
+
+export function parseUploadResponse(data: unknown): UploadResponse {
+  return parseResponse('upload', uploadResponse, data);
+}
+
+export function parseTitleResponse(data: unknown): TitleResponse {
+  return parseResponse('title', titleResponse, data);
+}
+
+export function parseProjectList(data: unknown): Project[] {
+  return parseResponse('project list', array(project), data);
+}
+
+export function parseProject(data: unknown): Project {
+  return parseResponse('project', project, data);
+}
+
+export function parseProjectDocs(data: unknown): ProjectDoc[] {
+  return parseResponse('project docs', array(projectDoc), data);
+}
+
+export function parseProjectDoc(data: unknown): ProjectDoc {
+  return parseResponse('project doc', projectDoc, data);
+}
+
+export function parseProjectFiles(data: unknown): ProjectFile[] {
+  return parseResponse('project files', array(projectFile), data);
+}
+
+export function parseProjectConversations(data: unknown): ConversationSummary[] {
+  return parseResponse('project conversations', array(conversationSummary), data);
+}
+
+export function parseStyleList(data: unknown): StyleList {
+  return parseResponse('style list', styleList, data);
+}
+
+export function parseOrganizationList(data: unknown): Organization[] {
+  return parseResponse('organization list', array(organization), data);
+}
+
+export function parseModelList(data: unknown): ServerModel[] {
+  return parseResponse('model list', modelList, data).models;
+}
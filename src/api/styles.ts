@@ -0,0 +1,52 @@
+import type { ResponseStyle } from '../types';
+
+// Built-in response styles. Used when list_styles is unavailable (older
+// backends, the mock server being offline) so the picker is never empty.
+
+export const NORMAL_STYLE: ResponseStyle = {
+  type: 'default',
+  key: 'Default',
+  name: 'Normal',
+  nameKey: 'normal_style_name',
+  prompt: 'Normal',
+  summary: 'Default responses from Claude',
+  summaryKey: 'normal_style_summary',
+  isDefault: true
+};
+
+export const BUILTIN_STYLES: ResponseStyle[] = [
+  NORMAL_STYLE,
+  {
+    type: 'default',
+    key: 'Concise',
+    name: 'Concise',
+    nameKey: 'concise_style_name',
+    prompt: 'Concise',
+    summary: 'Shorter responses & more messages',
+    summaryKey: 'concise_style_summary'
+  },
+  {
+    type: 'default',
+    key: 'Explanatory',
+    name: 'Explanatory',
+    nameKey: 'explanatory_style_name',
+    prompt: 'Explanatory',
+    summary: 'Educational responses for learning',
+    summaryKey: 'explanatory_style_summary'
+  },
+  {
+    type: 'default',
+    key: 'Formal',
+    name: 'Formal',
+    nameKey: 'formal_style_name',
+    prompt: 'Formal',
+    summary: 'Clear and well-structured responses',
+    summaryKey: 'formal_style_summary'
+  }
+];
+
+// Find a style by key, falling back to Normal
+export function findStyle(styles: ResponseStyle[], key: string | undefined): ResponseStyle {
+  if (!key) return NORMAL_STYLE;
+  return styles.find(s => s.key === key) || NORMAL_STYLE;
+}
@@ -0,0 +1,24 @@
+import type { ThinkingPreference } from '../types';
+
+// Extended thinking request fields. claude.ai switches thinking on with
+// paprika_mode; the budget caps how many tokens the model may think for.
+
+export const MIN_THINKING_BUDGET = 1024;
+export const MAX_THINKING_BUDGET = 64000;
+
+export const DEFAULT_THINKING: ThinkingPreference = {
+  enabled: false,
+  budgetTokens: 16000
+};
+
+// Completion body fields for a thinking preference
+export function buildThinkingFields(thinking: ThinkingPreference = DEFAULT_THINKING): Record<string, unknown> {
+  if (!thinking.enabled) {
+    return { paprika_mode: null };
+  }
+  const budget = Math.round(thinking.budgetTokens || DEFAULT_THINKING.budgetTokens);
+  return {
+    paprika_mode: 'extended',
+    thinking_budget_tokens: Math.min(Math.max(budget, MIN_THINKING_BUDGET), MAX_THINKING_BUDGET)
+  };
+}
@@ -0,0 +1,33 @@
+import type { ToolName, ToolToggles } from '../types';
+
+// Tools the completion endpoint accepts, in the order they are sent
+
+interface ToolDefinition {
+  type: string;
+  name: ToolName;
+  label: string;
+}
+
+export const TOOL_DEFINITIONS: ToolDefinition[] = [
+  { type: 'web_search_v0', name: 'web_search', label: 'Web search' },
+  { type: 'artifacts_v0', name: 'artifacts', label: 'Artifacts' },
+  { type: 'repl_v0', name: 'repl', label: 'Analysis tool' }
+];
+
+export const DEFAULT_TOOLS: ToolToggles = {
+  web_search: true,
+  artifacts: true,
+  repl: true
+};
+
+// Apply per-conversation overrides on top of the defaults
+export function resolveTools(defaults: ToolToggles, overrides: Partial<ToolToggles> = {}): ToolToggles {
+  return { ...DEFAULT_TOOLS, ...defaults, ...overrides };
+}
+
+// Build the completion body's tools array from toggles
+export function buildToolList(toggles: ToolToggles): Array<{ type: string; name: string }> {
+  return TOOL_DEFINITIONS
+    .filter(tool => toggles[tool.name])
+    .map(({ type, name }) => ({ type, name }));
+}
@@ -0,0 +1,25 @@
+// Parallel upload scheduling. Each file is its own request, so a slow or
+// failed file doesn't hold up the others.
+
+// How many files upload at once
+export const MAX_PARALLEL_UPLOADS = 3;
+
+// Run worker over items with at most `limit` in flight; results keep input order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, run));
+  return results;
+}
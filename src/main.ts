@@ -1,23 +1,170 @@
-import { app, BrowserWindow, ipcMain, session, globalShortcut, screen, dialog } from 'electron';
+import { app, BrowserWindow, ipcMain, globalShortcut, screen, dialog, net, session } from 'electron';
 import fs from 'fs';
 import path from 'path';
 import crypto from 'crypto';
-import { isAuthenticated, getOrgId, makeRequest, streamCompletion, stopResponse, generateTitle, store, BASE_URL, prepareAttachmentPayload } from './api/client';
-import { createStreamState, processSSEChunk, type StreamCallbacks } from './streaming/parser';
-import type { SettingsSchema, AttachmentPayload, UploadFilePayload } from './types';
+import type http from 'http';
+import { isAuthenticated, getSessionCookies, makeRequest, streamCompletion, stopResponse, generateTitle, store, getBaseUrl, getBackendProfile, getBackendProfiles, prepareAttachmentPayload, readUploadData, getLocale, getTimeZone, testConnection, getSession, DEFAULT_BACKEND_PROFILE } from './api/client';
+import { createStreamState, processSSEEvent, buildSteps, endStream, type StreamCallbacks, type StreamState } from './streaming/parser';
+import { SSEDecoder } from './streaming/sse';
+import { applyArtifactOperation, artifactExtension, buildArtifacts } from './streaming/artifacts';
+import { setStreamRecording, getRecordingsDir, readSSERecording, replaySSERecording } from './streaming/recording';
+import { startMockServer } from './mock/server';
+import { ApiRequestError, toApiErrorInfo, streamEventError } from './api/policy';
+import { beginOperation, endOperation, abortOperation, abortOwnerOperations } from './api/operations';
+import {
+  parseConversationList,
+  parseConversationSummary,
+  parseConversationTree,
+  parseProjectList,
+  parseProject,
+  parseProjectDocs,
+  parseProjectDoc,
+  parseProjectFiles,
+  parseProjectConversations,
+  parseStyleList
+} from './api/schemas';
+import { BUILTIN_STYLES, findStyle } from './api/styles';
+import { DEFAULT_TOOLS, resolveTools } from './api/tools';
+import { DEFAULT_THINKING } from './api/thinking';
+import { isValidLocale, isValidTimeZone } from './api/locale';
+import { MAX_PARALLEL_UPLOADS, mapWithConcurrency } from './api/uploads';
+import { CONNECTIVITY_POLL_MS, getOutbox, getOutboxItem, addToOutbox, updateOutboxItem, removeFromOutbox, reparentOutbox, resetInterruptedSends } from './api/outbox';
+import { isRecording, setRecording, getNetworkEntries, clearNetworkEntries, onNetworkEntry, toHar, toNdjson } from './api/inspector';
+import { getQuota, onQuotaChange, recordUsageLimit } from './api/quota';
+import { getModelCatalog, resolveModel, clearModelCatalogs } from './api/models';
+import { applyNetworkSettings, registerSession, setProxyCredentials, answerProxyAuth, encryptCredentials, decryptCredentials } from './api/network';
+import {
+  getAccounts,
+  getAccount,
+  saveAccount,
+  getDefaultAccount,
+  setDefaultAccount,
+  removeAccount,
+  createPartition,
+  registerAccount,
+  refreshAccount,
+  migrateLegacySession,
+  toAccountInfo
+} from './api/accounts';
+import type {
+  SettingsSchema,
+  AttachmentPayload,
+  InlineAttachment,
+  OutboxItem,
+  OutboxState,
+  SendMessageResult,
+  UploadFilePayload,
+  UploadRequest,
+  UploadResult,
+  ConversationPage,
+  ConversationSummary,
+  ConversationPreferences,
+  Project,
+  ProjectDetail,
+  ResponseStyle,
+  SendMessageOptions,
+  Account,
+  AccountList,
+  ImageProcessingSettings,
+  NetworkSettings,
+  ProxyCredentials,
+  ApiErrorInfo,
+  SSERecordLine,
+  ReplayOptions,
+  ReplayResult,
+  Artifact,
+  LoadedConversation
+} from './types';
 
 // Track multiple main windows
 const mainWindows: Map<number, BrowserWindow> = new Map();
 let spotlightWindow: BrowserWindow | null = null;
 let settingsWindow: BrowserWindow | null = null;
+let inspectorWindow: BrowserWindow | null = null;
+
+// Account and org each main window is bound to, by webContents id
+const windowAccounts: Map<number, { accountId: string; orgId: string }> = new Map();
+
+// Artifacts of each conversation opened or streamed this session, so edits
+// that stream in later apply to the right content
+const conversationArtifacts: Map<string, Map<string, Artifact>> = new Map();
+
+// Replayed replies get a conversation id no server knows
+const REPLAY_ID_PREFIX = 'replay-';
+
+// Conversation list paging
+const CONVERSATION_PAGE_SIZE = 30;
+// Largest page asked of the server; bigger limits are fetched in several
+const MAX_CONVERSATION_PAGE_SIZE = 200;
 
 // Default settings
 const DEFAULT_SETTINGS: SettingsSchema = {
   spotlightKeybind: 'CommandOrControl+Shift+C',
   spotlightPersistHistory: true,
   newWindowKeybind: 'CommandOrControl+Shift+N',
+  backendProfiles: {},
+  activeBackendProfile: DEFAULT_BACKEND_PROFILE,
+  customStyles: [],
+  defaultTools: DEFAULT_TOOLS,
+  locale: '',
+  timezone: '',
+  imageProcessing: {
+    enabled: true,
+    // Claude downsizes anything with a longer side anyway
+    maxDimension: 1568,
+    quality: 85,
+  },
+  networkInspector: false,
+  recordStreams: false,
+  network: {
+    proxyMode: 'system',
+    pacUrl: '',
+    proxyRules: '',
+    bypassList: '',
+    caBundlePath: '',
+  },
 };
 
+// Bounds for the image preprocessing settings
+const MIN_IMAGE_DIMENSION = 256;
+const MAX_IMAGE_DIMENSION = 8192;
+
+// Clamp image preprocessing values into range
+function normalizeImageProcessing(value: ImageProcessingSettings): ImageProcessingSettings {
+  const defaults = DEFAULT_SETTINGS.imageProcessing;
+  const clamp = (n: number, min: number, max: number, fallback: number) =>
+    Number.isFinite(n) ? Math.min(Math.max(Math.round(n), min), max) : fallback;
+  return {
+    enabled: value.enabled !== false,
+    maxDimension: clamp(value.maxDimension, MIN_IMAGE_DIMENSION, MAX_IMAGE_DIMENSION, defaults.maxDimension),
+    quality: clamp(value.quality, 1, 100, defaults.quality),
+  };
+}
+
+const PROXY_MODES: NetworkSettings['proxyMode'][] = ['system', 'direct', 'pac', 'fixed'];
+
+// Trim network settings and check the fields the chosen proxy mode needs
+function normalizeNetworkSettings(value: NetworkSettings): NetworkSettings {
+  const network: NetworkSettings = {
+    proxyMode: PROXY_MODES.includes(value.proxyMode) ? value.proxyMode : 'system',
+    pacUrl: (value.pacUrl || '').trim(),
+    proxyRules: (value.proxyRules || '').trim(),
+    bypassList: (value.bypassList || '').trim(),
+    caBundlePath: (value.caBundlePath || '').trim(),
+  };
+  if (network.proxyMode === 'pac') {
+    try {
+      new URL(network.pacUrl);
+    } catch {
+      throw new Error(`Invalid PAC script URL: ${network.pacUrl || '(empty)'}`);
+    }
+  }
+  if (network.proxyMode === 'fixed' && !network.proxyRules) {
+    throw new Error('Enter a proxy server for manual proxy mode');
+  }
+  return network;
+}
+
 // Get settings with defaults
 function getSettings(): SettingsSchema {
   const stored = store.get('settings');
@@ -30,6 +177,79 @@ function saveSettings(settings: Partial<SettingsSchema>) {
   store.set('settings', { ...current, ...settings });
 }
 
+// Get the composer preferences remembered for a conversation
+function getConversationPreferences(conversationId: string): ConversationPreferences {
+  return store.get('conversationPreferences')?.[conversationId] || {};
+}
+
+// Merge preferences for a conversation
+function saveConversationPreferences(conversationId: string, preferences: Partial<ConversationPreferences>): ConversationPreferences {
+  const all = store.get('conversationPreferences') || {};
+  const next = { ...all[conversationId], ...preferences };
+  store.set('conversationPreferences', { ...all, [conversationId]: next });
+  return next;
+}
+
+function deleteConversationPreferences(conversationId: string) {
+  const all = store.get('conversationPreferences');
+  if (!all?.[conversationId]) return;
+  const { [conversationId]: _removed, ...rest } = all;
+  store.set('conversationPreferences', rest);
+}
+
+// Styles from the server by org, cached until the backend changes
+const serverStyles = new Map<string, ResponseStyle[]>();
+
+// Server styles (or the built-ins when list_styles fails) plus local custom styles
+async function getAvailableStyles(orgId: string, partition: string, refresh = false): Promise<ResponseStyle[]> {
+  let styles = serverStyles.get(orgId);
+  if (!styles || refresh) {
+    try {
+      const result = await makeRequest(`${getBaseUrl()}/api/organizations/${orgId}/list_styles`, 'GET', undefined, { partition });
+      if (result.status !== 200) {
+        throw new Error(`Failed to get styles: ${result.status}`);
+      }
+      const list = parseStyleList(result.data);
+      styles = [...list.defaultStyles, ...list.customStyles];
+    } catch (error) {
+      console.warn('[API] Using built-in styles:', error instanceof Error ? error.message : error);
+      styles = BUILTIN_STYLES;
+    }
+    serverStyles.set(orgId, styles);
+  }
+  return [...styles, ...getSettings().customStyles];
+}
+
+// Account behind an IPC call, with orgId set to the org the window uses.
+// Unbound windows and Spotlight use the default account.
+function senderAccount(sender: Electron.WebContents): Account | undefined {
+  const binding = windowAccounts.get(sender.id);
+  const account = getAccount(binding?.accountId) || getDefaultAccount();
+  if (!account) return undefined;
+  return binding?.accountId === account.id ? { ...account, orgId: binding.orgId } : account;
+}
+
+// Org and session partition for an API call from a window
+function requireAccount(sender: Electron.WebContents): { orgId: string; partition: string } {
+  const account = senderAccount(sender);
+  if (!account) throw new Error('Not authenticated');
+  return { orgId: account.orgId, partition: account.partition };
+}
+
+function bindWindow(contentsId: number, account: Account, orgId = account.orgId) {
+  windowAccounts.set(contentsId, { accountId: account.id, orgId });
+}
+
+// Accounts for the switcher, marking the one the window uses
+function getAccountList(sender: Electron.WebContents): AccountList {
+  const current = senderAccount(sender);
+  return {
+    accounts: getAccounts().map(toAccountInfo),
+    currentAccountId: current?.id || null,
+    currentOrgId: current?.orgId || null
+  };
+}
+
 // Register global shortcuts
 function registerShortcuts() {
   globalShortcut.unregisterAll();
@@ -62,6 +282,28 @@ function registerShortcuts() {
   }
 }
 
+// Bundled mock server (only runs while a mock profile is active)
+let mockServer: http.Server | null = null;
+
+// Start or stop the mock server to match the active backend profile
+async function syncMockServer() {
+  const profile = getBackendProfile();
+
+  if (mockServer) {
+    mockServer.close();
+    mockServer = null;
+  }
+
+  if (!profile.mockServer) return;
+
+  const port = Number(new URL(profile.baseUrl).port) || 80;
+  try {
+    mockServer = await startMockServer(port);
+  } catch (e) {
+    console.error('Failed to start mock server on port', port, e);
+  }
+}
+
 // Backwards compatibility alias
 function registerSpotlightShortcut() {
   registerShortcuts();
@@ -116,6 +358,7 @@ function createSpotlightWindow() {
     },
   });
 
+  const contentsId = spotlightWindow.webContents.id;
   spotlightWindow.loadFile(path.join(__dirname, '../static/spotlight.html'));
 
   // Close on blur (clicking outside)
@@ -126,11 +369,12 @@ function createSpotlightWindow() {
   });
 
   spotlightWindow.on('closed', () => {
+    abortOwnerOperations(contentsId);
     spotlightWindow = null;
   });
 }
 
-function createMainWindow(): BrowserWindow {
+function createMainWindow(accountId?: string): BrowserWindow {
   const isMac = process.platform === 'darwin';
 
   const newWindow = new BrowserWindow({
@@ -154,12 +398,25 @@ function createMainWindow(): BrowserWindow {
   });
 
   const windowId = newWindow.id;
+  const contentsId = newWindow.webContents.id;
   mainWindows.set(windowId, newWindow);
 
+  const account = getAccount(accountId) || getDefaultAccount();
+  if (account) bindWindow(contentsId, account);
+
   newWindow.loadFile(path.join(__dirname, '../static/index.html'));
 
+  // Reloading or navigating away drops the renderer state, so cancel its requests
+  newWindow.webContents.on('did-start-navigation', (details) => {
+    if (details.isMainFrame && !details.isSameDocument) {
+      abortOwnerOperations(contentsId);
+    }
+  });
+
   newWindow.on('closed', () => {
+    abortOwnerOperations(contentsId);
     mainWindows.delete(windowId);
+    windowAccounts.delete(contentsId);
   });
 
   return newWindow;
@@ -209,6 +466,67 @@ function createSettingsWindow() {
   });
 }
 
+// Create network inspector window
+function createInspectorWindow() {
+  if (inspectorWindow && !inspectorWindow.isDestroyed()) {
+    inspectorWindow.focus();
+    return;
+  }
+
+  const isMac = process.platform === 'darwin';
+
+  inspectorWindow = new BrowserWindow({
+    width: 1000,
+    height: 680,
+    minWidth: 640,
+    minHeight: 400,
+    ...(isMac ? {
+      transparent: true,
+      vibrancy: 'under-window',
+      visualEffectState: 'active',
+      backgroundColor: '#00000000',
+      titleBarStyle: 'hiddenInset',
+      trafficLightPosition: { x: 16, y: 16 },
+    } : {
+      backgroundColor: '#1a1a1a',
+    }),
+    webPreferences: {
+      preload: path.join(__dirname, 'preload.js'),
+      contextIsolation: true,
+      nodeIntegration: false,
+    },
+  });
+
+  inspectorWindow.loadFile(path.join(__dirname, '../static/inspector.html'));
+
+  inspectorWindow.on('closed', () => {
+    inspectorWindow = null;
+  });
+}
+
+// Stream captured traffic to the inspector while it's open
+onNetworkEntry((entry) => {
+  if (inspectorWindow && !inspectorWindow.isDestroyed()) {
+    inspectorWindow.webContents.send('network-entry', entry);
+  }
+});
+
+// Push quota changes to every window using that org, Spotlight included
+onQuotaChange((state) => {
+  [...mainWindows.values(), spotlightWindow].forEach(win => {
+    if (win && !win.isDestroyed() && senderAccount(win.webContents)?.orgId === state.orgId) {
+      win.webContents.send('quota-changed', state);
+    }
+  });
+});
+
+// Record the quota from a completion that hit a usage limit
+function recordLimitError(orgId: string, error: unknown) {
+  if (error instanceof ApiRequestError && error.usageLimit) {
+    recordUsageLimit(orgId, error.usageLimit);
+  }
+}
+
 // IPC handlers
 
 // Spotlight window resize
@@ -225,24 +543,40 @@ let spotlightConversationId: string | null = null;
 let spotlightParentMessageUuid: string | null = null;
 let spotlightMessages: Array<{ role: 'user' | 'assistant'; text: string }> = [];
 let spotlightDraftInput: string = '';
+// Org the Spotlight conversation lives in
+let spotlightOrgId: string | null = null;
+
+ipcMain.handle('get-quota', async (event) => {
+  const account = senderAccount(event.sender);
+  return account ? getQuota(account.orgId) : null;
+});
 
-// Spotlight send message (uses Haiku)
-ipcMain.handle('spotlight-send', async (_event, message: string) => {
-  const orgId = await getOrgId();
-  if (!orgId) throw new Error('Not authenticated');
+// Spotlight send message (uses the catalog's quick model)
+ipcMain.handle('spotlight-send', async (event, message: string) => {
+  const { orgId, partition } = requireAccount(event.sender);
+
+  // The default account changed since the Spotlight chat started
+  if (spotlightOrgId !== orgId) {
+    spotlightConversationId = null;
+    spotlightParentMessageUuid = null;
+    spotlightMessages = [];
+    spotlightOrgId = orgId;
+  }
 
   if (!spotlightConversationId) {
+    const { quickModel } = await getModelCatalog(orgId, partition);
     const createResult = await makeRequest(
-      `${BASE_URL}/api/organizations/${orgId}/chat_conversations`,
+      `${getBaseUrl()}/api/organizations/${orgId}/chat_conversations`,
       'POST',
-      { name: '', model: 'claude-haiku-4-5-20251001' }
+      { name: '', model: quickModel },
+      { partition }
     );
 
     if (createResult.status !== 201 && createResult.status !== 200) {
       throw new Error('Failed to create conversation');
     }
 
-    const convData = createResult.data as { uuid: string };
+    const convData = parseConversationSummary(createResult.data);
     spotlightConversationId = convData.uuid;
     spotlightParentMessageUuid = null;
   }
@@ -268,31 +602,92 @@ ipcMain.handle('spotlight-send', async (_event, message: string) => {
     onThinkingStop: (thinkingText) => {
       spotlightWindow?.webContents.send('spotlight-thinking', { isThinking: false, thinkingText });
     },
-    onToolStart: (toolName, msg) => {
-      spotlightWindow?.webContents.send('spotlight-tool', { toolName, isRunning: true, message: msg });
+    onToolStart: (toolName, msg, _blockIndex, toolUseId) => {
+      spotlightWindow?.webContents.send('spotlight-tool', { toolName, toolUseId, isRunning: true, message: msg });
+    },
+    onToolInputDelta: (toolName, input, _blockIndex, toolUseId) => {
+      spotlightWindow?.webContents.send('spotlight-tool-input', { toolName, toolUseId, input });
     },
-    onToolStop: (toolName, input) => {
-      spotlightWindow?.webContents.send('spotlight-tool', { toolName, isRunning: false, input });
+    onToolStop: (toolName, input, _blockIndex, toolUseId) => {
+      spotlightWindow?.webContents.send('spotlight-tool', { toolName, toolUseId, isRunning: false, input });
     },
-    onToolResult: (toolName, result, isError) => {
-      spotlightWindow?.webContents.send('spotlight-tool-result', { toolName, isError, result });
+    onToolResult: (toolName, result, isError, _blockIndex, toolUseId) => {
+      spotlightWindow?.webContents.send('spotlight-tool-result', { toolName, toolUseId, isError, result });
+    },
+    onUsageLimit: (limit) => {
+      recordUsageLimit(orgId, limit);
     },
     onComplete: (fullText, _steps, messageUuid) => {
       // Store assistant response
       spotlightMessages.push({ role: 'assistant', text: fullText });
       spotlightWindow?.webContents.send('spotlight-complete', { fullText, messageUuid });
+    },
+    onError: (error) => {
+      console.warn(`[Spotlight] Stream error (${error.type}):`, error.message);
+    },
+    // Cut off or failed: keep what arrived and say why it stopped
+    onStreamEnd: (reason, error) => {
+      if (reason === 'completed') return;
+      if (state.fullResponse) spotlightMessages.push({ role: 'assistant', text: state.fullResponse });
+      spotlightWindow?.webContents.send('spotlight-complete', {
+        fullText: state.fullResponse,
+        messageUuid: state.lastMessageUuid,
+        endReason: reason,
+        ...(error ? { error: error.message } : {})
+      });
     }
   };
 
-  await streamCompletion(orgId, conversationId, message, parentMessageUuid, (chunk) => {
-    processSSEChunk(chunk, state, callbacks);
-  });
+  // Registered like the main window's completions, so stop-response and
+  // closing Spotlight both cancel it
+  const operationKey = `completion:${conversationId}`;
+  const controller = beginOperation(event.sender.id, operationKey);
+
+  let error: ApiErrorInfo | undefined;
+  let aborted = false;
+  try {
+    await streamCompletion(orgId, conversationId, message, parentMessageUuid, (sseEvent) => {
+      processSSEEvent(sseEvent, state, callbacks);
+    }, {
+      tools: resolveTools(getSettings().defaultTools),
+      signal: controller.signal,
+      partition,
+      onRetry: (notice) => {
+        spotlightWindow?.webContents.send('spotlight-retry', notice);
+      }
+    });
+    if (endStream(state, callbacks) === 'errored' && state.error) {
+      error = streamEventError(state.error).toInfo();
+    }
+  } catch (err) {
+    if (err instanceof ApiRequestError && err.kind === 'aborted') {
+      console.log('[Spotlight] Completion aborted:', conversationId);
+      aborted = true;
+      endStream(state, callbacks, { aborted: true });
+    } else {
+      recordLimitError(orgId, err);
+      error = toApiErrorInfo(err);
+      if (!state.received) {
+        spotlightMessages.pop();
+        return { error };
+      }
+      endStream(state, callbacks, { error: { type: error.kind, message: error.message } });
+    }
+  } finally {
+    endOperation(event.sender.id, operationKey, controller);
+  }
 
   if (state.lastMessageUuid) {
     spotlightParentMessageUuid = state.lastMessageUuid;
   }
 
-  return { conversationId, fullText: state.fullResponse, messageUuid: state.lastMessageUuid };
+  return {
+    conversationId,
+    fullText: state.fullResponse,
+    messageUuid: state.lastMessageUuid,
+    ...(error ? { error } : {}),
+    ...(aborted ? { aborted } : {})
+  };
 });
 
 // Reset spotlight conversation when window is closed
@@ -333,32 +728,47 @@ ipcMain.handle('spotlight-new-chat', async () => {
   spotlightDraftInput = '';
 });
 
-ipcMain.handle('get-auth-status', async () => {
-  return isAuthenticated();
+ipcMain.handle('get-auth-status', async (event) => {
+  const account = senderAccount(event.sender);
+  return !!account && isAuthenticated(account.partition);
 });
 
-ipcMain.handle('login', async () => {
+// Sign in to a new account in its own partition and bind the window to it
+ipcMain.handle('login', async (event) => {
+  const partition = createPartition();
+  // The sign-in page goes through the same proxy and trust as the API
+  await registerSession(getSession(partition));
   const authWindow = new BrowserWindow({
     width: 500,
     height: 700,
     webPreferences: {
       nodeIntegration: false,
       contextIsolation: true,
+      partition,
     },
     title: 'Sign in to Claude',
   });
 
-  authWindow.loadURL(`${BASE_URL}/login`);
+  authWindow.loadURL(`${getBaseUrl()}/login`);
 
+  let signedIn = false;
   const checkCookies = async (): Promise<{ success: boolean; error?: string } | null> => {
-    const cookies = await session.defaultSession.cookies.get({ domain: '.claude.ai' });
-    const sessionKey = cookies.find(c => c.name === 'sessionKey')?.value;
-    const orgId = cookies.find(c => c.name === 'lastActiveOrg')?.value;
+    const { sessionKey, orgId } = await getSessionCookies(partition);
 
-    if (sessionKey && orgId) {
+    if (sessionKey && orgId && !signedIn) {
+      signedIn = true;
       console.log('[Auth] Got cookies from webview!');
       authWindow.close();
-      store.set('orgId', orgId);
+
+      // Replace the window's account if its session has expired
+      const previous = senderAccount(event.sender);
+      if (previous && !(await isAuthenticated(previous.partition))) {
+        await removeAccount(previous.id);
+      }
+
+      const account = await registerAccount(partition, orgId);
+      setDefaultAccount(account.id);
+      bindWindow(event.sender.id, account);
       return { success: true };
     }
     return null;
@@ -389,30 +799,68 @@ ipcMain.handle('login', async () => {
   });
 });
 
-ipcMain.handle('logout', async () => {
-  store.clear();
-  await session.defaultSession.clearStorageData({ storages: ['cookies'] });
+// Sign the window's account out. Other windows on it fall back to the default account
+ipcMain.handle('logout', async (event) => {
+  const account = senderAccount(event.sender);
+  if (!account) return { success: true };
+
+  await removeAccount(account.id);
+  for (const [contentsId, binding] of windowAccounts) {
+    if (binding.accountId !== account.id) continue;
+    windowAccounts.delete(contentsId);
+    if (contentsId !== event.sender.id) {
+      Array.from(mainWindows.values()).find(win => win.webContents.id === contentsId)?.reload();
+    }
+  }
   return { success: true };
 });
 
-// Create a new conversation
-ipcMain.handle('create-conversation', async (_event, model?: string) => {
-  const orgId = await getOrgId();
-  if (!orgId) throw new Error('Not authenticated');
+// Accounts for the switcher; refresh re-fetches each account's organizations
+ipcMain.handle('get-accounts', async (event, refresh = false) => {
+  if (refresh) {
+    await Promise.all(getAccounts().map(refreshAccount));
+  }
+  return getAccountList(event.sender);
+});
+
+// Bind the window to an account and org (the renderer reloads afterwards)
+ipcMain.handle('switch-account', async (event, accountId: string, orgId?: string) => {
+  const account = getAccount(accountId);
+  if (!account) throw new Error('Unknown account');
+
+  const targetOrgId = orgId || account.orgId;
+  if (!account.organizations.some(o => o.uuid === targetOrgId)) {
+    throw new Error('Unknown organization');
+  }
 
-  const conversationId = crypto.randomUUID();
-  const url = `${BASE_URL}/api/organizations/${orgId}/chat_conversations`;
+  // The last org picked becomes the account's default, and the account the app default
+  const updated = saveAccount({ ...account, orgId: targetOrgId });
+  setDefaultAccount(updated.id);
+  abortOwnerOperations(event.sender.id);
+  bindWindow(event.sender.id, updated);
+  return getAccountList(event.sender);
+});
 
-  console.log('[API] Creating conversation:', conversationId, 'with model:', model || 'claude-opus-4-5-20251101');
+// Create a conversation under a client-chosen UUID
+async function createConversation(
+  { orgId, partition }: { orgId: string; partition: string },
+  conversationId: string,
+  model?: string,
+  projectUuid?: string
+) {
+  const url = `${getBaseUrl()}/api/organizations/${orgId}/chat_conversations`;
+  const resolvedModel = resolveModel(await getModelCatalog(orgId, partition), model);
+
+  console.log('[API] Creating conversation:', conversationId, 'with model:', resolvedModel);
   console.log('[API] URL:', url);
 
   const result = await makeRequest(url, 'POST', {
     uuid: conversationId,
     name: '',
-    model: model || 'claude-opus-4-5-20251101',
-    project_uuid: null,
+    model: resolvedModel,
+    project_uuid: projectUuid || null,
     create_mode: null
-  });
+  }, { partition });
 
   console.log('[API] Create conversation response:', result.status, JSON.stringify(result.data));
 
@@ -421,62 +869,91 @@ ipcMain.handle('create-conversation', async (_event, model?: string) => {
   }
 
   // The response includes the conversation data with uuid
-  const data = result.data as { uuid?: string };
-  return { conversationId, parentMessageUuid: data.uuid || conversationId, ...(result.data as object) };
+  const data = parseConversationSummary(result.data);
+  return { conversationId, parentMessageUuid: data.uuid || conversationId, ...data };
+}
+
+// Create a new conversation
+ipcMain.handle('create-conversation', async (event, model?: string, projectUuid?: string) => {
+  try {
+    return await createConversation(requireAccount(event.sender), crypto.randomUUID(), model, projectUuid);
+  } catch (error) {
+    // Let the renderer queue the message instead
+    if (error instanceof ApiRequestError && error.kind === 'network') setOnline(false);
+    throw error;
+  }
 });
 
-// Get list of conversations
-ipcMain.handle('get-conversations', async () => {
-  const orgId = await getOrgId();
-  if (!orgId) throw new Error('Not authenticated');
+// Get one page of conversations (most recent first). Limits above what the
+// server takes in one request are fetched a server page at a time.
+ipcMain.handle('get-conversations', async (event, options: { limit?: number; offset?: number } = {}): Promise<ConversationPage> => {
+  const { orgId, partition } = requireAccount(event.sender);
 
-  const url = `${BASE_URL}/api/organizations/${orgId}/chat_conversations?limit=30&consistency=eventual`;
-  const result = await makeRequest(url, 'GET');
+  const limit = Math.max(1, options.limit || CONVERSATION_PAGE_SIZE);
+  const offset = Math.max(0, options.offset || 0);
+  const conversations: ConversationSummary[] = [];
 
-  if (result.status !== 200) {
-    throw new Error(`Failed to get conversations: ${result.status}`);
+  while (conversations.length < limit) {
+    const pageSize = Math.min(limit - conversations.length, MAX_CONVERSATION_PAGE_SIZE);
+    const url = `${getBaseUrl()}/api/organizations/${orgId}/chat_conversations?limit=${pageSize}&offset=${offset + conversations.length}&consistency=eventual`;
+    const result = await makeRequest(url, 'GET', undefined, { partition });
+
+    if (result.status !== 200) {
+      throw new Error(`Failed to get conversations: ${result.status}`);
+    }
+
+    const page = parseConversationList(result.data);
+    conversations.push(...page);
+    if (page.length < pageSize) break;
   }
 
-  return result.data;
+  return {
+    conversations,
+    offset,
+    nextOffset: offset + conversations.length,
+    hasMore: conversations.length === limit
+  };
 });
 
 // Load a specific conversation with messages
-ipcMain.handle('load-conversation', async (_event, convId: string) => {
-  const orgId = await getOrgId();
-  if (!orgId) throw new Error('Not authenticated');
+ipcMain.handle('load-conversation', async (event, convId: string): Promise<LoadedConversation> => {
+  const { orgId, partition } = requireAccount(event.sender);
 
-  const url = `${BASE_URL}/api/organizations/${orgId}/chat_conversations/${convId}?tree=True&rendering_mode=messages&render_all_tools=true&consistency=eventual`;
-  const result = await makeRequest(url, 'GET');
+  const url = `${getBaseUrl()}/api/organizations/${orgId}/chat_conversations/${convId}?tree=True&rendering_mode=messages&render_all_tools=true&consistency=eventual`;
+  const result = await makeRequest(url, 'GET', undefined, { partition });
 
   if (result.status !== 200) {
     throw new Error(`Failed to load conversation: ${result.status}`);
   }
 
-  return result.data;
+  const tree = parseConversationTree(result.data);
+  const artifacts = buildArtifacts(tree);
+  conversationArtifacts.set(convId, artifacts);
+  return { ...tree, artifacts: Array.from(artifacts.values()) };
 });
 
 // Delete a conversation
-ipcMain.handle('delete-conversation', async (_event, convId: string) => {
-  const orgId = await getOrgId();
-  if (!orgId) throw new Error('Not authenticated');
+ipcMain.handle('delete-conversation', async (event, convId: string) => {
+  const { orgId, partition } = requireAccount(event.sender);
 
-  const url = `${BASE_URL}/api/organizations/${orgId}/chat_conversations/${convId}`;
-  const result = await makeRequest(url, 'DELETE');
+  const url = `${getBaseUrl()}/api/organizations/${orgId}/chat_conversations/${convId}`;
+  const result = await makeRequest(url, 'DELETE', undefined, { partition });
 
   if (result.status !== 200 && result.status !== 204) {
     throw new Error(`Failed to delete conversation: ${result.status}`);
   }
 
+  deleteConversationPreferences(convId);
+  conversationArtifacts.delete(convId);
   return { success: true };
 });
 
 // Rename a conversation
-ipcMain.handle('rename-conversation', async (_event, convId: string, name: string) => {
-  const orgId = await getOrgId();
-  if (!orgId) throw new Error('Not authenticated');
+ipcMain.handle('rename-conversation', async (event, convId: string, name: string) => {
+  const { orgId, partition } = requireAccount(event.sender);
 
-  const url = `${BASE_URL}/api/organizations/${orgId}/chat_conversations/${convId}`;
-  const result = await makeRequest(url, 'PUT', { name });
+  const url = `${getBaseUrl()}/api/organizations/${orgId}/chat_conversations/${convId}`;
+  const result = await makeRequest(url, 'PUT', { name }, { partition });
 
   if (result.status !== 200) {
     throw new Error(`Failed to rename conversation: ${result.status}`);
@@ -486,12 +963,11 @@ ipcMain.handle('rename-conversation', async (_event, convId: string, name: strin
 });
 
 // Star/unstar a conversation
-ipcMain.handle('star-conversation', async (_event, convId: string, isStarred: boolean) => {
-  const orgId = await getOrgId();
-  if (!orgId) throw new Error('Not authenticated');
+ipcMain.handle('star-conversation', async (event, convId: string, isStarred: boolean) => {
+  const { orgId, partition } = requireAccount(event.sender);
 
-  const url = `${BASE_URL}/api/organizations/${orgId}/chat_conversations/${convId}?rendering_mode=raw`;
-  const result = await makeRequest(url, 'PUT', { is_starred: isStarred });
+  const url = `${getBaseUrl()}/api/organizations/${orgId}/chat_conversations/${convId}?rendering_mode=raw`;
+  const result = await makeRequest(url, 'PUT', { is_starred: isStarred }, { partition });
 
   if (result.status !== 202) {
     throw new Error(`Failed to star conversation: ${result.status}`);
@@ -500,20 +976,126 @@ ipcMain.handle('star-conversation', async (_event, convId: string, isStarred: bo
   return result.data;
 });
 
+// List projects in the organization
+ipcMain.handle('get-projects', async (event): Promise<Project[]> => {
+  const { orgId, partition } = requireAccount(event.sender);
+
+  const url = `${getBaseUrl()}/api/organizations/${orgId}/projects`;
+  const result = await makeRequest(url, 'GET', undefined, { partition });
+
+  if (result.status !== 200) {
+    throw new Error(`Failed to get projects: ${result.status}`);
+  }
+
+  return parseProjectList(result.data).filter(p => !p.archived_at);
+});
+
+// Fetch a project together with its knowledge and chats
+async function loadProjectDetail(orgId: string, partition: string, projectUuid: string): Promise<ProjectDetail> {
+  const projectUrl = `${getBaseUrl()}/api/organizations/${orgId}/projects/${projectUuid}`;
+  const [projectResult, docsResult, filesResult, convsResult] = await Promise.all([
+    makeRequest(projectUrl, 'GET', undefined, { partition }),
+    makeRequest(`${projectUrl}/docs`, 'GET', undefined, { partition }),
+    makeRequest(`${projectUrl}/files`, 'GET', undefined, { partition }),
+    makeRequest(`${projectUrl}/conversations`, 'GET', undefined, { partition })
+  ]);
+
+  if (projectResult.status !== 200) {
+    throw new Error(`Failed to load project: ${projectResult.status}`);
+  }
+  if (docsResult.status !== 200) {
+    throw new Error(`Failed to load project knowledge: ${docsResult.status}`);
+  }
+
+  return {
+    ...parseProject(projectResult.data),
+    docs: parseProjectDocs(docsResult.data),
+    // Older projects have no file store; treat a missing endpoint as empty
+    files: filesResult.status === 200 ? parseProjectFiles(filesResult.data) : [],
+    conversations: convsResult.status === 200 ? parseProjectConversations(convsResult.data) : []
+  };
+}
+
+// Load a project with its knowledge, custom instructions and chats
+ipcMain.handle('load-project', async (event, projectUuid: string) => {
+  const { orgId, partition } = requireAccount(event.sender);
+
+  return loadProjectDetail(orgId, partition, projectUuid);
+});
+
+// Decode text files locally when the upload didn't extract anything
+async function knowledgeContent(file: UploadFilePayload, attachment: AttachmentPayload): Promise<string | undefined> {
+  if (attachment.extracted_content) return attachment.extracted_content;
+  if (file.type.startsWith('text/') || file.type === 'application/json') {
+    return (await readUploadData(file)).toString('utf-8');
+  }
+  return undefined;
+}
+
+// Upload knowledge to a project. Files go through the normal upload first;
+// anything with text becomes a doc, everything else is attached as a file.
+ipcMain.handle('upload-project-knowledge', async (event, projectUuid: string, files: UploadFilePayload[]) => {
+  const { orgId, partition } = requireAccount(event.sender);
+
+  const projectUrl = `${getBaseUrl()}/api/organizations/${orgId}/projects/${projectUuid}`;
+  const operationKey = `upload:${crypto.randomUUID()}`;
+  const controller = beginOperation(event.sender.id, operationKey);
+
+  try {
+    for (const file of files || []) {
+      const attachment = await prepareAttachmentPayload(orgId, file, { signal: controller.signal, partition });
+      const content = await knowledgeContent(file, attachment);
+
+      if (content !== undefined) {
+        const result = await makeRequest(`${projectUrl}/docs`, 'POST', { file_name: attachment.file_name, content }, { signal: controller.signal, partition });
+        if (result.status !== 200 && result.status !== 201) {
+          throw new Error(`Failed to add ${attachment.file_name} to project: ${result.status}`);
+        }
+        parseProjectDoc(result.data);
+      } else {
+        const result = await makeRequest(`${projectUrl}/files`, 'POST', { file_uuid: attachment.document_id }, { signal: controller.signal, partition });
+        if (result.status !== 200 && result.status !== 201) {
+          throw new Error(`Failed to add ${attachment.file_name} to project: ${result.status}`);
+        }
+      }
+    }
+  } finally {
+    endOperation(event.sender.id, operationKey, controller);
+  }
+
+  return loadProjectDetail(orgId, partition, projectUuid);
+});
+
+// Remove a knowledge doc or file from a project
+ipcMain.handle('delete-project-knowledge', async (event, projectUuid: string, kind: 'doc' | 'file', uuid: string) => {
+  const { orgId, partition } = requireAccount(event.sender);
+
+  const collection = kind === 'doc' ? 'docs' : 'files';
+  const url = `${getBaseUrl()}/api/organizations/${orgId}/projects/${projectUuid}/${collection}/${uuid}`;
+  const result = await makeRequest(url, 'DELETE', undefined, { partition });
+
+  if (result.status !== 200 && result.status !== 204) {
+    throw new Error(`Failed to remove project knowledge: ${result.status}`);
+  }
+
+  return { success: true };
+});
+
 // Export conversation to Markdown
 ipcMain.handle('export-conversation-markdown', async (event, conversationData: { title: string; messages: Array<{ role: string; content: string; timestamp?: string }> }) => {
   const { title, messages } = conversationData;
+  const formatTimestamp = (date: Date) => date.toLocaleString(getLocale(), { timeZone: getTimeZone() });
 
   // Get the window that sent this request
   const senderWindow = BrowserWindow.fromWebContents(event.sender);
 
   // Build markdown content
   let markdown = `# ${title || 'Conversation'}\n\n`;
-  markdown += `_Exported on ${new Date().toLocaleString()}_\n\n---\n\n`;
+  markdown += `_Exported on ${formatTimestamp(new Date())}_\n\n---\n\n`;
 
   for (const msg of messages) {
     const role = msg.role === 'human' ? 'You' : 'Claude';
-    const timestamp = msg.timestamp ? ` _(${new Date(msg.timestamp).toLocaleString()})_` : '';
+    const timestamp = msg.timestamp ? ` _(${formatTimestamp(new Date(msg.timestamp))})_` : '';
     markdown += `## ${role}${timestamp}\n\n`;
     markdown += `${msg.content}\n\n---\n\n`;
   }
@@ -542,42 +1124,83 @@ ipcMain.handle('export-conversation-markdown', async (event, conversationData: {
   }
 });
 
-// Create a new window
-ipcMain.handle('new-window', async () => {
-  const newWindow = createMainWindow();
-  return { windowId: newWindow.id };
-});
+// Save one version of an artifact
+ipcMain.handle('save-artifact', async (event, conversationId: string, artifactId: string, versionIndex: number) => {
+  const artifact = conversationArtifacts.get(conversationId)?.get(artifactId);
+  const version = artifact?.versions[versionIndex];
+  if (!artifact || !version) {
+    return { success: false, error: 'Artifact not found' };
+  }
 
-// Upload file attachments (prepare metadata only)
-ipcMain.handle('upload-attachments', async (_event, files: UploadFilePayload[]) => {
-  const uploads: AttachmentPayload[] = [];
-  for (const file of files || []) {
-    const attachment = await prepareAttachmentPayload(file);
-    uploads.push(attachment);
+  const senderWindow = BrowserWindow.fromWebContents(event.sender);
+  const extension = artifactExtension(artifact);
+  const result = await dialog.showSaveDialog(senderWindow || getMainWindow()!, {
+    title: 'Download Artifact',
+    defaultPath: `${version.title.replace(/[\\/:*?"<>|]/g, '-')}.${extension}`,
+    filters: [
+      { name: extension.toUpperCase(), extensions: [extension] },
+      { name: 'All Files', extensions: ['*'] }
+    ]
+  });
+
+  if (result.canceled || !result.filePath) {
+    return { success: false, canceled: true };
   }
 
-  return uploads;
+  try {
+    fs.writeFileSync(result.filePath, version.content, 'utf-8');
+    return { success: true, filePath: result.filePath };
+  } catch (error) {
+    console.error('Failed to write artifact:', error);
+    return { success: false, error: 'Failed to write file' };
+  }
 });
 
-// Send a message and stream response
-ipcMain.handle('send-message', async (event, conversationId: string, message: string, parentMessageUuid: string, attachments: AttachmentPayload[] = []) => {
-  const orgId = await getOrgId();
-  if (!orgId) throw new Error('Not authenticated');
-
-  // Get the window that sent this message
-  const senderWindow = BrowserWindow.fromWebContents(event.sender);
+// Create a new window
+// Opens with the sender's account unless another is given
+ipcMain.handle('new-window', async (event, accountId?: string) => {
+  const newWindow = createMainWindow(accountId || windowAccounts.get(event.sender.id)?.accountId);
+  return { windowId: newWindow.id };
+});
 
-  console.log('[API] Sending message to conversation:', conversationId);
-  console.log('[API] Parent message UUID:', parentMessageUuid);
-  console.log('[API] Message:', message.substring(0, 50) + '...');
-  if (attachments?.length) {
-    console.log('[API] Attachments:', attachments.map(a => `${a.file_name} (${a.file_size})`).join(', '));
-    console.log('[API] File IDs:', attachments.map(a => a.document_id).join(', '));
-  }
+// Upload file attachments (prepare metadata only)
+// Files upload in parallel (up to MAX_PARALLEL_UPLOADS), each cancellable by its
+// uploadId, with progress sent as upload-progress events.
+ipcMain.handle('upload-attachments', async (event, files: UploadRequest[]): Promise<UploadResult[]> => {
+  const { orgId, partition } = requireAccount(event.sender);
+  const sender = event.sender;
+
+  return mapWithConcurrency(files || [], MAX_PARALLEL_UPLOADS, async (file) => {
+    const operationKey = `upload:${file.uploadId}`;
+    const controller = beginOperation(sender.id, operationKey);
+
+    try {
+      const attachment = await prepareAttachmentPayload(orgId, file, {
+        signal: controller.signal,
+        partition,
+        onProgress: (loaded, total) => {
+          if (!sender.isDestroyed()) {
+            sender.send('upload-progress', { uploadId: file.uploadId, loaded, total });
+          }
+        }
+      });
+      return { uploadId: file.uploadId, attachment };
+    } catch (error) {
+      return { uploadId: file.uploadId, error: toApiErrorInfo(error) };
+    } finally {
+      endOperation(sender.id, operationKey, controller);
+    }
+  });
+});
 
-  const state = createStreamState();
+// Cancel one in-flight upload
+ipcMain.handle('cancel-upload', async (event, uploadId: string) => {
+  return { aborted: abortOperation(event.sender.id, `upload:${uploadId}`) };
+});
 
-  const callbacks: StreamCallbacks = {
+// Stream callbacks that forward a reply to a main window as message-* events
+function messageStreamCallbacks(senderWindow: BrowserWindow | null, conversationId: string, state: StreamState): StreamCallbacks {
+  return {
     onTextDelta: (text, fullText, blockIndex) => {
       senderWindow?.webContents.send('message-stream', { conversationId, blockIndex, text, fullText });
     },
@@ -602,30 +1225,42 @@ ipcMain.handle('send-message', async (event, conversationId: string, message: st
         summaries
       });
     },
-    onToolStart: (toolName, toolMessage, blockIndex) => {
+    onToolStart: (toolName, toolMessage, blockIndex, toolUseId) => {
       senderWindow?.webContents.send('message-tool-use', {
         conversationId,
         blockIndex,
+        toolUseId,
         toolName,
         message: toolMessage,
         isRunning: true
       });
     },
-    onToolStop: (toolName, input, blockIndex) => {
+    onToolInputDelta: (toolName, input, blockIndex, toolUseId) => {
+      senderWindow?.webContents.send('message-tool-input', {
+        conversationId,
+        blockIndex,
+        toolUseId,
+        toolName,
+        input
+      });
+    },
+    onToolStop: (toolName, input, blockIndex, toolUseId) => {
       const block = state.contentBlocks.get(blockIndex);
       senderWindow?.webContents.send('message-tool-use', {
         conversationId,
         blockIndex,
+        toolUseId,
         toolName,
         message: block?.toolMessage,
         input,
         isRunning: false
       });
     },
-    onToolResult: (toolName, result, isError, blockIndex) => {
+    onToolResult: (toolName, result, isError, blockIndex, toolUseId) => {
       senderWindow?.webContents.send('message-tool-result', {
         conversationId,
         blockIndex,
+        toolUseId,
         toolName,
         result,
         isError
@@ -634,6 +1269,23 @@ ipcMain.handle('send-message', async (event, conversationId: string, message: st
     onCitation: (citation, blockIndex) => {
       senderWindow?.webContents.send('message-citation', { conversationId, blockIndex, citation });
     },
+    onArtifact: (operation, _blockIndex, toolUseId) => {
+      let artifacts = conversationArtifacts.get(conversationId);
+      if (!artifacts) {
+        artifacts = new Map();
+        conversationArtifacts.set(conversationId, artifacts);
+      }
+      const artifact = applyArtifactOperation(artifacts, operation, { messageUuid: state.lastMessageUuid || undefined, toolUseId });
+      if (!artifact) {
+        console.warn(`[Artifacts] Update to unknown artifact ${operation.id}`);
+        return;
+      }
+      senderWindow?.webContents.send('message-artifacts', {
+        conversationId,
+        artifactId: artifact.id,
+        artifacts: Array.from(artifacts.values())
+      });
+    },
     onToolApproval: (toolName, approvalKey, input) => {
       senderWindow?.webContents.send('message-tool-approval', { conversationId, toolName, approvalKey, input });
     },
@@ -642,39 +1294,378 @@ ipcMain.handle('send-message', async (event, conversationId: string, message: st
     },
     onComplete: (fullText, steps, messageUuid) => {
       senderWindow?.webContents.send('message-complete', { conversationId, fullText, steps, messageUuid });
+    },
+    onError: (error) => {
+      console.warn(`[API] Stream error (${error.type}):`, error.message);
+    },
+    // Stopped, cut off or failed: finish the message with whatever arrived
+    onStreamEnd: (reason, error) => {
+      if (reason === 'completed' || !senderWindow || senderWindow.isDestroyed()) return;
+      senderWindow.webContents.send('message-complete', {
+        conversationId,
+        fullText: state.fullResponse,
+        steps: buildSteps(state.contentBlocks),
+        messageUuid: state.lastMessageUuid,
+        endReason: reason,
+        ...(reason === 'aborted' ? { aborted: true } : {}),
+        ...(error ? { error: error.message } : {})
+      });
+    }
+  };
+}
+
+// Send a message and stream the response to `target` (none for outbox sends).
+// The completion is registered under ownerId so it can be stopped.
+async function runCompletion(
+  target: Electron.WebContents | null,
+  ownerId: number,
+  { orgId, partition }: { orgId: string; partition: string },
+  conversationId: string,
+  message: string,
+  parentMessageUuid: string,
+  attachments: AttachmentPayload[] = [],
+  options: SendMessageOptions = {}
+): Promise<SendMessageResult> {
+
+  // Remember the composer choices for this conversation, then resolve them
+  const preferences = saveConversationPreferences(conversationId, options);
+  const style = findStyle(await getAvailableStyles(orgId, partition), preferences.styleKey);
+  const tools = resolveTools(getSettings().defaultTools, preferences.tools);
+  const thinking = preferences.thinking || DEFAULT_THINKING;
+
+  // Get the window that sent this message
+  const senderWindow = target ? BrowserWindow.fromWebContents(target) : null;
+
+  console.log('[API] Sending message to conversation:', conversationId);
+  console.log('[API] Parent message UUID:', parentMessageUuid);
+  console.log('[API] Message:', message.substring(0, 50) + '...');
+  console.log('[API] Style:', style.key);
+  console.log('[API] Thinking:', thinking.enabled ? `on (${thinking.budgetTokens} tokens)` : 'off');
+  console.log('[API] Tools:', Object.entries(tools).filter(([, on]) => on).map(([name]) => name).join(', ') || 'none');
+  if (attachments?.length) {
+    console.log('[API] Attachments:', attachments.map(a => `${a.file_name} (${a.file_size})`).join(', '));
+    console.log('[API] File IDs:', attachments.map(a => a.document_id || 'inline').join(', '));
+  }
+
+  const state = createStreamState();
+
+  const callbacks: StreamCallbacks = {
+    ...messageStreamCallbacks(senderWindow, conversationId, state),
+    onUsageLimit: (limit) => {
+      recordUsageLimit(orgId, limit);
     }
   };
 
   // Send Claude the uploaded file UUIDs (metadata stays client-side for display)
   const fileIds = attachments?.map(a => a.document_id).filter(Boolean) || [];
+  // Text files read locally go inline with their content
+  const inlineAttachments: InlineAttachment[] = (attachments || [])
+    .filter(a => !a.document_id && typeof a.extracted_content === 'string')
+    .map(a => ({
+      file_name: a.file_name,
+      file_type: a.file_type,
+      file_size: a.file_size,
+      extracted_content: a.extracted_content || ''
+    }));
+
+  const operationKey = `completion:${conversationId}`;
+  const controller = beginOperation(ownerId, operationKey);
 
-  await streamCompletion(orgId, conversationId, message, parentMessageUuid, (chunk) => {
-    processSSEChunk(chunk, state, callbacks);
-  }, { attachments: [], files: fileIds });
+  try {
+    await streamCompletion(orgId, conversationId, message, parentMessageUuid, (sseEvent) => {
+      processSSEEvent(sseEvent, state, callbacks);
+    }, {
+      attachments: inlineAttachments,
+      files: fileIds,
+      style,
+      tools,
+      thinking,
+      signal: controller.signal,
+      partition,
+      onRetry: (notice) => {
+        senderWindow?.webContents.send('message-retry', { conversationId, ...notice });
+      }
+    });
+  } catch (error) {
+    if (error instanceof ApiRequestError && error.kind === 'aborted') {
+      console.log('[API] Completion aborted:', conversationId);
+      endStream(state, callbacks, { aborted: true });
+      return { text: state.fullResponse, messageUuid: state.lastMessageUuid, aborted: true };
+    }
+    console.error('[API] Completion failed:', error);
+    recordLimitError(orgId, error);
+    const info = toApiErrorInfo(error);
+    // The reply had started: keep what arrived, marked as failed
+    if (state.received) {
+      endStream(state, callbacks, { error: { type: info.kind, message: info.message } });
+      return { text: state.fullResponse, messageUuid: state.lastMessageUuid, error: info };
+    }
+    // Nothing reached the server, so the message can be queued and resent
+    const offline = error instanceof ApiRequestError && error.kind === 'network' && !error.bodyReceived && !state.lastMessageUuid;
+    return { error: info, ...(offline ? { offline } : {}) };
+  } finally {
+    endOperation(ownerId, operationKey, controller);
+  }
 
+  const reason = endStream(state, callbacks);
+  if (reason === 'errored' && state.error) {
+    return { text: state.fullResponse, messageUuid: state.lastMessageUuid, error: streamEventError(state.error).toInfo() };
+  }
+  if (reason === 'truncated') {
+    console.warn('[API] Stream ended without a stop reason:', conversationId);
+    return { text: state.fullResponse, messageUuid: state.lastMessageUuid, truncated: true };
+  }
   return { text: state.fullResponse, messageUuid: state.lastMessageUuid };
+}
+
+ipcMain.handle('send-message', async (
+  event,
+  conversationId: string,
+  message: string,
+  parentMessageUuid: string,
+  attachments: AttachmentPayload[] = [],
+  options: SendMessageOptions = {}
+) => {
+  const account = requireAccount(event.sender);
+  const result = await runCompletion(event.sender, event.sender.id, account, conversationId, message, parentMessageUuid, attachments, options);
+  if (result.offline) setOnline(false);
+  return result;
 });
 
-// Stop a streaming response
-ipcMain.handle('stop-response', async (_event, conversationId: string) => {
-  const orgId = await getOrgId();
-  if (!orgId) throw new Error('Not authenticated');
+// Offline outbox. `online` is the OS network state, except that a send that
+// couldn't connect marks us offline until a queued message goes through.
+let online = true;
+let flushingOutbox = false;
+let flushRequested = false;
+
+// Outbox sends belong to no window (webContents ids start at 1)
+const OUTBOX_OWNER_ID = 0;
+
+// Queued messages for a window's account
+function getOutboxState(contents: Electron.WebContents): OutboxState {
+  const accountId = senderAccount(contents)?.id;
+  return { online, items: getOutbox().filter(item => item.accountId === accountId) };
+}
+
+function broadcastOutbox() {
+  mainWindows.forEach(win => {
+    if (!win.isDestroyed()) win.webContents.send('outbox-changed', getOutboxState(win.webContents));
+  });
+}
+
+function setOnline(value: boolean) {
+  if (online === value) return;
+  online = value;
+  console.log(`[Outbox] Connection ${online ? 'restored' : 'lost'}`);
+  broadcastOutbox();
+}
+
+// Send one queued message, creating its conversation first if needed
+async function sendOutboxItem(item: OutboxItem, account: Account): Promise<SendMessageResult> {
+  const target = { orgId: item.orgId, partition: account.partition };
+  if (item.newConversation) {
+    try {
+      await createConversation(target, item.conversationId, item.newConversation.model, item.newConversation.projectUuid);
+    } catch (error) {
+      const offline = error instanceof ApiRequestError && error.kind === 'network';
+      return { error: toApiErrorInfo(error), ...(offline ? { offline } : {}) };
+    }
+    updateOutboxItem(item.id, { newConversation: undefined });
+  }
+
+  const result = await runCompletion(
+    null, OUTBOX_OWNER_ID, target, item.conversationId, item.message, item.parentMessageUuid, item.attachments, item.options
+  );
+  if (!result.error && item.newConversation) {
+    generateTitle(item.orgId, item.conversationId, item.message, [], { partition: account.partition }).catch(error => {
+      console.warn('[Outbox] Failed to generate title:', error instanceof Error ? error.message : error);
+    });
+  }
+  return result;
+}
+
+// Send queued messages in order. A connection failure stops the flush; any
+// other failure marks the message failed and holds back the rest of its
+// conversation, since later messages reply to it.
+async function flushOutbox() {
+  if (flushingOutbox) {
+    flushRequested = true;
+    return;
+  }
+  flushingOutbox = true;
+
+  try {
+    do {
+      flushRequested = false;
+      const heldBack = new Set<string>();
+
+      for (const { id } of getOutbox()) {
+        // Re-read: discarded, edited or re-parented since the flush started
+        const item = getOutboxItem(id);
+        if (!item) continue;
+        if (item.status === 'failed' || heldBack.has(item.conversationId)) {
+          heldBack.add(item.conversationId);
+          continue;
+        }
+
+        const account = getAccount(item.accountId);
+        if (!account) {
+          updateOutboxItem(id, { status: 'failed', error: { kind: 'http', message: 'Account is signed out', attempts: 1 } });
+          heldBack.add(item.conversationId);
+          broadcastOutbox();
+          continue;
+        }
+
+        console.log('[Outbox] Sending queued message to conversation:', item.conversationId);
+        updateOutboxItem(id, { status: 'sending', error: undefined });
+        broadcastOutbox();
+
+        const result = await sendOutboxItem(item, account);
+        if (!getOutboxItem(id)) {
+          // Discarded while sending
+          broadcastOutbox();
+          continue;
+        }
+        if (result.offline) {
+          updateOutboxItem(id, { status: 'queued' });
+          setOnline(false);
+          broadcastOutbox();
+          return;
+        }
+        if (result.error || result.aborted) {
+          updateOutboxItem(id, { status: 'failed', error: result.error });
+          heldBack.add(item.conversationId);
+        } else {
+          removeFromOutbox(id);
+          if (result.messageUuid) reparentOutbox(item.conversationId, result.messageUuid);
+          setOnline(true);
+          mainWindows.forEach(win => {
+            if (!win.isDestroyed()) {
+              win.webContents.send('outbox-sent', { id, conversationId: item.conversationId, messageUuid: result.messageUuid });
+            }
+          });
+        }
+        broadcastOutbox();
+      }
+    } while (flushRequested && online);
+    // Nothing left that could be sent, so the poll has no reason to wait
+    setOnline(true);
+  } finally {
+    flushingOutbox = false;
+  }
+}
+
+// Follow the OS network state. While marked offline after a failed send,
+// each poll retries the queue, and the first message that goes through
+// brings us back online.
+function pollConnectivity() {
+  if (!net.isOnline()) {
+    setOnline(false);
+  } else if (getOutbox().some(item => item.status === 'queued')) {
+    flushOutbox();
+  } else {
+    setOnline(true);
+  }
+}
+
+ipcMain.handle('get-outbox', async (event) => {
+  return getOutboxState(event.sender);
+});
+
+// Queue a message that couldn't be sent. It goes out right away if we're online
+ipcMain.handle('queue-message', async (event, message: Pick<OutboxItem, 'conversationId' | 'newConversation' | 'message' | 'parentMessageUuid' | 'attachments' | 'options'>) => {
+  const account = senderAccount(event.sender);
+  if (!account) throw new Error('Not authenticated');
+
+  const item = addToOutbox({
+    id: crypto.randomUUID(),
+    accountId: account.id,
+    orgId: account.orgId,
+    conversationId: message.conversationId,
+    newConversation: message.newConversation,
+    message: message.message,
+    parentMessageUuid: message.parentMessageUuid,
+    attachments: message.attachments || [],
+    options: message.options || {},
+    createdAt: new Date().toISOString(),
+    status: 'queued'
+  });
+  console.log('[Outbox] Queued message for conversation:', item.conversationId);
+  broadcastOutbox();
+  if (online) flushOutbox();
+  return item;
+});
+
+// Drop a queued message (aborting it if it's being sent)
+ipcMain.handle('discard-outbox-item', async (_event, id: string) => {
+  const item = removeFromOutbox(id);
+  if (item?.status === 'sending') {
+    abortOperation(OUTBOX_OWNER_ID, `completion:${item.conversationId}`);
+  }
+  broadcastOutbox();
+  return { discarded: !!item };
+});
+
+// Change the text of a message that hasn't gone out yet
+ipcMain.handle('edit-outbox-item', async (_event, id: string, message: string) => {
+  if (getOutboxItem(id)?.status === 'sending') {
+    throw new Error('Message is already being sent');
+  }
+  const item = updateOutboxItem(id, { message });
+  broadcastOutbox();
+  return item;
+});
+
+// Try a failed message again
+ipcMain.handle('retry-outbox-item', async (_event, id: string) => {
+  const item = updateOutboxItem(id, { status: 'queued', error: undefined });
+  broadcastOutbox();
+  if (item && online) flushOutbox();
+  return item;
+});
+
+// Stop a streaming response: drop our socket right away, then tell the server
+ipcMain.handle('stop-response', async (event, conversationId: string) => {
+  const { orgId, partition } = requireAccount(event.sender);
 
   console.log('[API] Stopping response for conversation:', conversationId);
-  await stopResponse(orgId, conversationId);
-  return { success: true };
+  const aborted = abortOperation(event.sender.id, `completion:${conversationId}`);
+  // Replays never reached the server
+  if (conversationId.startsWith(REPLAY_ID_PREFIX)) return { success: true, aborted };
+  await stopResponse(orgId, conversationId, { partition });
+  return { success: true, aborted };
 });
 
 // Generate title for a conversation
-ipcMain.handle('generate-title', async (_event, conversationId: string, messageContent: string, recentTitles: string[] = []) => {
-  const orgId = await getOrgId();
-  if (!orgId) throw new Error('Not authenticated');
+ipcMain.handle('generate-title', async (event, conversationId: string, messageContent: string, recentTitles: string[] = []) => {
+  const { orgId, partition } = requireAccount(event.sender);
 
   console.log('[API] Generating title for conversation:', conversationId);
-  const result = await generateTitle(orgId, conversationId, messageContent, recentTitles);
+  const result = await generateTitle(orgId, conversationId, messageContent, recentTitles, { partition });
   return result;
 });
 
+// Models the window's org can use, for the picker and badge
+ipcMain.handle('get-models', async (event, refresh = false) => {
+  const { orgId, partition } = requireAccount(event.sender);
+  return getModelCatalog(orgId, partition, refresh);
+});
+
+// List response styles: server styles plus custom styles from settings
+ipcMain.handle('get-styles', async (event, refresh = false) => {
+  const { orgId, partition } = requireAccount(event.sender);
+
+  return getAvailableStyles(orgId, partition, refresh);
+});
+
+ipcMain.handle('get-conversation-preferences', async (_event, conversationId: string) => {
+  return getConversationPreferences(conversationId);
+});
+
+ipcMain.handle('set-conversation-preferences', async (_event, conversationId: string, preferences: Partial<ConversationPreferences>) => {
+  return saveConversationPreferences(conversationId, preferences);
+});
+
 // Settings IPC handlers
 ipcMain.handle('open-settings', async () => {
   createSettingsWindow();
@@ -685,14 +1676,221 @@ ipcMain.handle('get-settings', async () => {
 });
 
 ipcMain.handle('save-settings', async (_event, settings: Partial<SettingsSchema>) => {
+  if (settings.locale && !isValidLocale(settings.locale)) {
+    throw new Error(`Invalid locale: ${settings.locale}`);
+  }
+  if (settings.timezone && !isValidTimeZone(settings.timezone)) {
+    throw new Error(`Invalid timezone: ${settings.timezone}`);
+  }
+  if (settings.imageProcessing) {
+    settings = { ...settings, imageProcessing: normalizeImageProcessing(settings.imageProcessing) };
+  }
+  if (settings.network) {
+    // Applied before saving so a bad CA bundle leaves the old settings in place
+    const network = normalizeNetworkSettings(settings.network);
+    await applyNetworkSettings(network);
+    settings = { ...settings, network };
+  }
+  const previousBackend = getSettings().activeBackendProfile;
   saveSettings(settings);
+  if (settings.networkInspector !== undefined) {
+    setRecording(settings.networkInspector);
+  }
+  if (settings.recordStreams !== undefined) {
+    setStreamRecording(settings.recordStreams);
+  }
   // Re-register shortcuts if any keybind changed
   if (settings.spotlightKeybind !== undefined || settings.newWindowKeybind !== undefined) {
     registerShortcuts();
   }
+  // Switching backends changes auth state, so reload the main windows
+  if (settings.activeBackendProfile !== undefined && settings.activeBackendProfile !== previousBackend) {
+    spotlightConversationId = null;
+    spotlightParentMessageUuid = null;
+    spotlightMessages = [];
+    serverStyles.clear();
+    clearModelCatalogs();
+    await syncMockServer();
+    mainWindows.forEach(win => win.reload());
+  }
   return getSettings();
 });
 
+// List backend profiles for the settings window
+ipcMain.handle('get-backend-profiles', async () => {
+  return getBackendProfiles();
+});
+
+// Network inspector IPC handlers
+ipcMain.handle('open-network-inspector', async () => {
+  createInspectorWindow();
+});
+
+ipcMain.handle('get-network-entries', async () => {
+  return { recording: isRecording(), entries: getNetworkEntries() };
+});
+
+ipcMain.handle('clear-network-entries', async () => {
+  clearNetworkEntries();
+});
+
+// Save the capture as HAR or NDJSON (one line per request, response and SSE event)
+ipcMain.handle('export-network-log', async (event, format: 'har' | 'ndjson') => {
+  const senderWindow = BrowserWindow.fromWebContents(event.sender);
+  const entries = getNetworkEntries();
+  const isHar = format === 'har';
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+  const result = await dialog.showSaveDialog(senderWindow || getMainWindow()!, {
+    title: 'Export Network Log',
+    defaultPath: `open-claude-${stamp}.${isHar ? 'har' : 'ndjson'}`,
+    filters: [
+      isHar ? { name: 'HTTP Archive', extensions: ['har'] } : { name: 'NDJSON', extensions: ['ndjson', 'jsonl'] },
+      { name: 'All Files', extensions: ['*'] }
+    ]
+  });
+
+  if (result.canceled || !result.filePath) {
+    return { success: false, canceled: true };
+  }
+
+  try {
+    const content = isHar ? JSON.stringify(toHar(entries), null, 2) : toNdjson(entries);
+    fs.writeFileSync(result.filePath, content, 'utf-8');
+    return { success: true, filePath: result.filePath };
+  } catch (error) {
+    console.error('Failed to write network log:', error);
+    return { success: false, error: 'Failed to write file' };
+  }
+});
+
+// Proxy credentials are never sent back to the renderer, only whether there is a password
+ipcMain.handle('get-proxy-credentials', async () => {
+  const credentials = decryptCredentials(store.get('proxyCredentials'));
+  return credentials ? { username: credentials.username, hasPassword: !!credentials.password } : null;
+});
+
+// A missing password keeps the saved one for the same user
+ipcMain.handle('set-proxy-credentials', async (_event, credentials: { username: string; password?: string } | null) => {
+  if (credentials?.username) {
+    const saved = decryptCredentials(store.get('proxyCredentials'));
+    const next: ProxyCredentials = {
+      username: credentials.username,
+      password: credentials.password ?? (saved?.username === credentials.username ? saved.password : '')
+    };
+    store.set('proxyCredentials', encryptCredentials(next));
+    setProxyCredentials(next);
+  } else {
+    store.delete('proxyCredentials');
+    setProxyCredentials(null);
+  }
+});
+
+ipcMain.handle('choose-ca-bundle', async (event) => {
+  const senderWindow = BrowserWindow.fromWebContents(event.sender);
+  const result = await dialog.showOpenDialog(senderWindow || getMainWindow()!, {
+    title: 'Choose CA Bundle',
+    properties: ['openFile'],
+    filters: [
+      { name: 'Certificates', extensions: ['pem', 'crt', 'cer'] },
+      { name: 'All Files', extensions: ['*'] }
+    ]
+  });
+  return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0];
+});
+
+ipcMain.handle('test-connection', async () => {
+  return testConnection();
+});
+
+// Every session (account partitions, sign-in windows) follows the network settings
+app.on('session-created', ses => { registerSession(ses); });
+
+// Answer proxy auth challenges from windows (the sign-in page) with the stored credentials
+app.on('login', (event, _webContents, _details, authInfo, callback) => {
+  if (answerProxyAuth(authInfo, callback)) event.preventDefault();
+});
+
+// Main windows to offer as replay targets
+ipcMain.handle('list-main-windows', async () => {
+  return Array.from(mainWindows.values())
+    .filter(win => !win.isDestroyed())
+    .map((win, i) => ({ id: win.webContents.id, title: `Window ${i + 1}: ${win.getTitle()}` }));
+});
+
+// Play a recorded completion stream through the parser into a main window,
+// where it renders like a live reply. Stop (or closing the window) ends it.
+ipcMain.handle('replay-sse-recording', async (event, { windowId, speed }: ReplayOptions): Promise<ReplayResult> => {
+  const win = Array.from(mainWindows.values()).find(w => !w.isDestroyed() && w.webContents.id === windowId);
+  if (!win) {
+    return { success: false, error: 'That window is no longer open' };
+  }
+
+  const senderWindow = BrowserWindow.fromWebContents(event.sender);
+  const result = await dialog.showOpenDialog(senderWindow || win, {
+    title: 'Replay Stream',
+    defaultPath: getRecordingsDir(),
+    properties: ['openFile'],
+    filters: [
+      { name: 'SSE Recording', extensions: ['ndjson', 'jsonl'] },
+      { name: 'All Files', extensions: ['*'] }
+    ]
+  });
+  if (result.canceled || result.filePaths.length === 0) {
+    return { success: false, canceled: true };
+  }
+
+  const filePath = result.filePaths[0];
+  let records: SSERecordLine[];
+  try {
+    records = readSSERecording(filePath);
+  } catch (error) {
+    return { success: false, filePath, error: error instanceof Error ? error.message : 'Failed to read recording' };
+  }
+  if (win.isDestroyed()) {
+    return { success: false, filePath, error: 'That window is no longer open' };
+  }
+
+  const header = records[0] as Extract<SSERecordLine, { type: 'recording' }>;
+  const conversationId = `${REPLAY_ID_PREFIX}${crypto.randomUUID()}`;
+  const ownerId = win.webContents.id;
+  const operationKey = `completion:${conversationId}`;
+  const controller = beginOperation(ownerId, operationKey);
+  console.log(`[Replay] ${path.basename(filePath)} at ${speed > 0 ? `${speed}x` : 'full speed'}`);
+
+  win.webContents.send('replay-start', { conversationId, prompt: header.prompt, title: path.basename(filePath) });
+  win.focus();
+
+  const state = createStreamState();
+  const callbacks = messageStreamCallbacks(win, conversationId, state);
+
+  try {
+    const decoder = new SSEDecoder();
+    const chunks = await replaySSERecording(records, chunk => {
+      decoder.push(chunk).forEach(sseEvent => processSSEEvent(sseEvent, state, callbacks));
+    }, {
+      speed,
+      signal: controller.signal
+    });
+    if (!controller.signal.aborted) decoder.end().forEach(sseEvent => processSSEEvent(sseEvent, state, callbacks));
+    // End the way the recorded stream did
+    const end = records.find(record => record.type === 'end');
+    endStream(state, callbacks, {
+      aborted: controller.signal.aborted || (end?.type === 'end' && end.reason === 'aborted'),
+      error: end?.type === 'end' && end.reason === 'error' ? { type: 'network', message: end.error || 'Connection lost' } : undefined
+    });
+    return { success: true, filePath, chunks };
+  } catch (error) {
+    // Don't leave the window showing a reply that's still streaming
+    const message = error instanceof Error ? error.message : 'Replay failed';
+    console.error('[Replay] Failed:', error);
+    endStream(state, callbacks, { error: { type: 'replay_error', message } });
+    return { success: false, filePath, error: message };
+  } finally {
+    endOperation(ownerId, operationKey, controller);
+  }
+});
+
 // Handle deep link on Windows (single instance)
 const gotTheLock = app.requestSingleInstanceLock();
 if (!gotTheLock) {
@@ -707,7 +1905,26 @@ if (!gotTheLock) {
   });
 }
 
-app.whenReady().then(() => {
+app.whenReady().then(async () => {
+  // Proxy and CA settings go on every session before anything makes a request
+  setProxyCredentials(decryptCredentials(store.get('proxyCredentials')));
+  await Promise.all([session.defaultSession, ...getAccounts().map(a => getSession(a.partition))].map(registerSession));
+  try {
+    await applyNetworkSettings(getSettings().network);
+  } catch (error) {
+    console.error('[Network] Ignoring CA bundle:', error instanceof Error ? error.message : error);
+    await applyNetworkSettings({ ...getSettings().network, caBundlePath: '' });
+  }
+  setRecording(getSettings().networkInspector);
+  setStreamRecording(getSettings().recordStreams);
+  await syncMockServer();
+  await migrateLegacySession();
+  // Messages left in the outbox by a previous run are retried right away,
+  // once the backend is up and the session it sends with is in place
+  online = net.isOnline();
+  resetInterruptedSends();
+  setInterval(pollConnectivity, CONNECTIVITY_POLL_MS);
+  if (online) flushOutbox();
   createMainWindow();
 
   // Register spotlight shortcut from settings
@@ -723,6 +1940,7 @@ app.whenReady().then(() => {
 // Unregister shortcuts when app quits
 app.on('will-quit', () => {
   globalShortcut.unregisterAll();
+  mockServer?.close();
 });
 
 app.on('window-all-closed', () => {
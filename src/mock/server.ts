@@ -0,0 +1,568 @@
+import http from 'http';
+import crypto from 'crypto';
+import { BUILTIN_STYLES } from '../api/styles';
+
+// Local stand-in for the claude.ai API, used by the "mock" backend profile.
+// Replays the endpoints the client consumes: organizations, conversations, projects,
+// styles, models, upload, completion (SSE), stop_response and title generation.
+
+const MOCK_ORG_ID = 'mock-org';
+// Orgs the mock user belongs to (conversations are shared between them)
+const MOCK_ORGANIZATIONS = [
+  { uuid: MOCK_ORG_ID, name: 'Personal', capabilities: ['chat'] },
+  { uuid: 'mock-team-org', name: 'Mock team', capabilities: ['chat', 'raven'] }
+];
+const STREAM_DELAY_MS = 30;
+// Models offered by the mock (GET models)
+const MOCK_MODELS = [
+  { model: 'claude-opus-4-5-20251101', name: 'Opus 4.5', description: 'Most capable for complex work', supports_thinking: true, supports_vision: true, context_window: 200000, is_default: true },
+  { model: 'claude-sonnet-4-5-20250929', name: 'Sonnet 4.5', description: 'Smart, efficient model for everyday use', supports_thinking: true, supports_vision: true, context_window: 200000 },
+  { model: 'claude-haiku-4-5-20251001', name: 'Haiku 4.5', description: 'Fastest for quick answers', supports_thinking: true, supports_vision: true, context_window: 200000 }
+];
+// Message quota, small enough to run into the usage-limit UI while testing
+const MOCK_MESSAGE_LIMIT = 20;
+const MOCK_LIMIT_WINDOW_MS = 5 * 60 * 1000;
+const MOCK_APPROACHING_AT = 5;
+
+interface MockFile {
+  file_uuid: string;
+  file_name: string;
+  file_kind: string;
+  size_bytes: number;
+  created_at: string;
+}
+
+interface MockAttachment {
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  extracted_content: string;
+}
+
+interface MockMessage {
+  uuid: string;
+  sender: 'human' | 'assistant';
+  parent_message_uuid: string | null;
+  content: Array<Record<string, unknown>>;
+  created_at: string;
+  files_v2: MockFile[];
+  attachments: MockAttachment[];
+}
+
+interface MockConversation {
+  uuid: string;
+  name: string;
+  summary: string;
+  model: string;
+  is_starred: boolean;
+  project_uuid: string | null;
+  created_at: string;
+  updated_at: string;
+  chat_messages: MockMessage[];
+}
+
+interface MockDoc {
+  uuid: string;
+  file_name: string;
+  content: string;
+  created_at: string;
+}
+
+interface MockProject {
+  uuid: string;
+  name: string;
+  description: string;
+  prompt_template: string;
+  is_private: boolean;
+  created_at: string;
+  updated_at: string;
+  docs: MockDoc[];
+  files: MockFile[];
+}
+
+const conversations = new Map<string, MockConversation>();
+const projects = new Map<string, MockProject>();
+const uploads = new Map<string, MockFile>();
+const activeStreams = new Map<string, http.ServerResponse>();
+
+// Seed a couple of conversations so the sidebar isn't empty
+function seedConversations(): void {
+  const now = Date.now();
+  const seeds = [
+    { name: 'Welcome to the mock server', prompt: 'What is this?', reply: 'This conversation is served by the local Open Claude mock server. Nothing here leaves your machine.' },
+    { name: 'Markdown sample', prompt: 'Show me some markdown', reply: '## Heading\n\n- a list item\n- another one\n\n```ts\nconst answer = 42;\n```' }
+  ];
+
+  seeds.forEach((seed, i) => {
+    const createdAt = new Date(now - (i + 1) * 86_400_000).toISOString();
+    const conv = createConversation(crypto.randomUUID(), seed.name, 'claude-sonnet-4-5-20250929', createdAt);
+    const human = addMessage(conv, 'human', seed.prompt, null, [], createdAt);
+    addMessage(conv, 'assistant', seed.reply, human.uuid, [], createdAt);
+  });
+}
+
+// Seed one project with a knowledge doc and a chat
+function seedProjects(): void {
+  const createdAt = new Date(Date.now() - 3 * 86_400_000).toISOString();
+  const project: MockProject = {
+    uuid: crypto.randomUUID(),
+    name: 'Mock project',
+    description: 'A sample project served by the mock server',
+    prompt_template: 'Answer briefly and cite the project knowledge when it applies.',
+    is_private: true,
+    created_at: createdAt,
+    updated_at: createdAt,
+    docs: [{
+      uuid: crypto.randomUUID(),
+      file_name: 'style-guide.md',
+      content: '# Style guide\n\nPrefer short sentences.',
+      created_at: createdAt
+    }],
+    files: []
+  };
+  projects.set(project.uuid, project);
+
+  const conv = createConversation(crypto.randomUUID(), 'Project kickoff', 'claude-sonnet-4-5-20250929', createdAt, project.uuid);
+  const human = addMessage(conv, 'human', 'What is this project about?', null, [], createdAt);
+  addMessage(conv, 'assistant', 'It is a sample project. Its knowledge contains a short style guide.', human.uuid, [], createdAt);
+}
+
+function createConversation(
+  uuid: string,
+  name: string,
+  model: string,
+  createdAt = new Date().toISOString(),
+  projectUuid: string | null = null
+): MockConversation {
+  const conv: MockConversation = {
+    uuid,
+    name,
+    summary: '',
+    model,
+    is_starred: false,
+    project_uuid: projectUuid,
+    created_at: createdAt,
+    updated_at: createdAt,
+    chat_messages: []
+  };
+  conversations.set(uuid, conv);
+  return conv;
+}
+
+function addMessage(
+  conv: MockConversation,
+  sender: MockMessage['sender'],
+  text: string,
+  parentUuid: string | null,
+  files: MockFile[] = [],
+  createdAt = new Date().toISOString(),
+  attachments: MockAttachment[] = []
+): MockMessage {
+  const message: MockMessage = {
+    uuid: crypto.randomUUID(),
+    sender,
+    parent_message_uuid: parentUuid,
+    content: [{ type: 'text', text }],
+    created_at: createdAt,
+    files_v2: files,
+    attachments
+  };
+  conv.chat_messages.push(message);
+  conv.updated_at = createdAt;
+  return message;
+}
+
+function sendJson(res: http.ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(data === undefined ? '' : JSON.stringify(data));
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+async function readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const body = await readBody(req);
+  if (body.length === 0) return {};
+  try {
+    return JSON.parse(body.toString('utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+function summarize({ chat_messages: _messages, ...summary }: MockConversation) {
+  return summary;
+}
+
+function writeEvent(res: http.ServerResponse, data: Record<string, unknown>): void {
+  res.write(`event: ${data.type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Login page: hands out the cookies the client looks for
+function handleLogin(res: http.ServerResponse): void {
+  res.writeHead(200, {
+    'content-type': 'text/html',
+    'set-cookie': [
+      'sessionKey=mock-session; Path=/',
+      `lastActiveOrg=${MOCK_ORG_ID}; Path=/`
+    ]
+  });
+  res.end('<!DOCTYPE html><html><body style="font-family:system-ui;padding:40px">Signed in to the mock server.</body></html>');
+}
+
+// Minimal multipart parse: we only need the filename, type and size
+async function handleUpload(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const body = await readBody(req);
+  const head = body.subarray(0, 1024).toString('utf-8');
+  const fileName = /filename="([^"]*)"/.exec(head)?.[1] || 'upload';
+  const fileType = /Content-Type: ([^\r\n]+)/.exec(head)?.[1] || 'application/octet-stream';
+  const headerEnd = body.indexOf('\r\n\r\n');
+  const trailerStart = body.lastIndexOf('\r\n--');
+  const size = headerEnd >= 0 && trailerStart > headerEnd ? trailerStart - (headerEnd + 4) : body.length;
+
+  const file: MockFile = {
+    file_uuid: crypto.randomUUID(),
+    file_name: fileName,
+    file_kind: fileType.startsWith('image/') ? 'image' : 'document',
+    size_bytes: size,
+    created_at: new Date().toISOString()
+  };
+  uploads.set(file.file_uuid, file);
+
+  const isText = fileType.startsWith('text/') || fileType === 'application/json';
+  const extracted = isText && headerEnd >= 0 ? body.subarray(headerEnd + 4, headerEnd + 4 + size).toString('utf-8') : undefined;
+
+  sendJson(res, 200, { ...file, file_type: fileType, extracted_content: extracted });
+}
+
+let quotaWindowStart = 0;
+let quotaUsed = 0;
+
+// message_limit payload for the current window (resetsAt in epoch seconds, like claude.ai)
+function mockMessageLimit(): Record<string, unknown> {
+  const remaining = Math.max(0, MOCK_MESSAGE_LIMIT - quotaUsed);
+  const type = remaining === 0 ? 'exceeded_limit' : remaining <= MOCK_APPROACHING_AT ? 'approaching_limit' : 'within_limit';
+  return {
+    type,
+    resetsAt: type === 'within_limit' ? null : Math.floor((quotaWindowStart + MOCK_LIMIT_WINDOW_MS) / 1000),
+    remaining: type === 'within_limit' ? null : remaining,
+    perModelLimit: false
+  };
+}
+
+async function handleCompletion(conv: MockConversation, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  if (Date.now() - quotaWindowStart >= MOCK_LIMIT_WINDOW_MS) {
+    quotaWindowStart = Date.now();
+    quotaUsed = 0;
+  }
+  if (quotaUsed >= MOCK_MESSAGE_LIMIT) {
+    await readBody(req);
+    sendJson(res, 429, { type: 'error', error: { type: 'rate_limit_error', message: JSON.stringify(mockMessageLimit()) } });
+    return;
+  }
+  quotaUsed++;
+
+  const body = await readJson(req);
+  const prompt = (body.prompt as string) || '';
+  const fileIds = (body.files as string[]) || [];
+  const files = fileIds.map(id => uploads.get(id)).filter((f): f is MockFile => !!f);
+  const attachments = (body.attachments as MockAttachment[] | undefined) || [];
+  const parentUuid = (body.parent_message_uuid as string | null) || null;
+  const style = (body.personalized_styles as Array<{ key?: string; name?: string }> | undefined)?.[0];
+  const thinking = body.paprika_mode === 'extended';
+
+  const human = addMessage(conv, 'human', prompt, parentUuid, files, undefined, attachments);
+  const assistantUuid = crypto.randomUUID();
+
+  let reply = `This is a mock reply from the local server.\n\nYou said:\n\n> ${prompt.split('\n').join('\n> ')}`;
+  if (files.length > 0) {
+    reply += `\n\nAttached: ${files.map(f => `\`${f.file_name}\``).join(', ')}`;
+  }
+  if (attachments.length > 0) {
+    reply += `\n\nInline: ${attachments.map(a => `\`${a.file_name}\` (${a.extracted_content.length} characters)`).join(', ')}`;
+  }
+  if (style && style.key !== 'Default') {
+    reply += `\n\nStyle: ${style.name || style.key}`;
+  }
+
+  res.writeHead(200, {
+    'content-type': 'text/event-stream',
+    'cache-control': 'no-cache',
+    connection: 'keep-alive'
+  });
+  activeStreams.set(conv.uuid, res);
+
+  writeEvent(res, {
+    type: 'message_start',
+    message: { uuid: assistantUuid, model: conv.model, parent_uuid: human.uuid }
+  });
+  writeEvent(res, { type: 'message_limit', message_limit: mockMessageLimit() });
+
+  let stopped = false;
+  res.on('close', () => { stopped = true; });
+
+  // Extended thinking: a short thinking block ahead of the reply
+  let textIndex = 0;
+  let thinkingBlock: Record<string, unknown> | null = null;
+  if (thinking) {
+    const thoughts = `The user wrote "${prompt.slice(0, 60)}". This is the mock server, so I will echo it back.`;
+    thinkingBlock = { type: 'thinking', thinking: '', summaries: [{ summary: 'Echoing the prompt' }], start_timestamp: new Date().toISOString() };
+    writeEvent(res, {
+      type: 'content_block_start',
+      index: 0,
+      content_block: { type: 'thinking', thinking: '', start_timestamp: thinkingBlock.start_timestamp }
+    });
+    for (const token of thoughts.match(/\S+\s*/g) || []) {
+      if (stopped || !activeStreams.has(conv.uuid)) break;
+      await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+      thinkingBlock.thinking += token;
+      writeEvent(res, { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: token } });
+    }
+    thinkingBlock.stop_timestamp = new Date().toISOString();
+    writeEvent(res, { type: 'content_block_delta', index: 0, delta: { type: 'thinking_summary_delta', summary: { summary: 'Echoing the prompt' } } });
+    writeEvent(res, { type: 'content_block_stop', index: 0, stop_timestamp: thinkingBlock.stop_timestamp });
+    textIndex = 1;
+  }
+
+  writeEvent(res, { type: 'content_block_start', index: textIndex, content_block: { type: 'text', text: '' } });
+
+  const tokens = reply.match(/\S+\s*/g) || [];
+  let streamed = '';
+
+  for (const token of tokens) {
+    if (stopped || !activeStreams.has(conv.uuid)) break;
+    await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+    streamed += token;
+    writeEvent(res, { type: 'content_block_delta', index: textIndex, delta: { type: 'text_delta', text: token } });
+  }
+
+  const stopReason = streamed.length < reply.length ? 'user_canceled' : 'end_turn';
+  const assistant = addMessage(conv, 'assistant', streamed, human.uuid);
+  assistant.uuid = assistantUuid;
+  if (thinkingBlock) assistant.content.unshift(thinkingBlock);
+
+  activeStreams.delete(conv.uuid);
+  if (stopped) return;
+
+  writeEvent(res, { type: 'content_block_stop', index: textIndex });
+  writeEvent(res, { type: 'message_delta', delta: { stop_reason: stopReason } });
+  writeEvent(res, { type: 'message_stop' });
+  res.end();
+}
+
+async function handleConversation(
+  conv: MockConversation | undefined,
+  action: string | undefined,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  if (!conv) {
+    sendJson(res, 404, { error: { type: 'not_found_error', message: 'Conversation not found' } });
+    return;
+  }
+
+  if (action === 'completion' && req.method === 'POST') {
+    await handleCompletion(conv, req, res);
+  } else if (action === 'stop_response' && req.method === 'POST') {
+    activeStreams.delete(conv.uuid);
+    sendJson(res, 204, undefined);
+  } else if (action === 'title' && req.method === 'POST') {
+    const body = await readJson(req);
+    const content = ((body.message_content as string) || '').trim();
+    conv.name = content.split(/\s+/).slice(0, 6).join(' ') || 'Untitled';
+    sendJson(res, 202, { title: conv.name });
+  } else if (!action && req.method === 'GET') {
+    sendJson(res, 200, conv);
+  } else if (!action && req.method === 'PUT') {
+    const body = await readJson(req);
+    if (typeof body.name === 'string') conv.name = body.name;
+    if (typeof body.is_starred === 'boolean') {
+      conv.is_starred = body.is_starred;
+      sendJson(res, 202, { ...conv, chat_messages: undefined });
+      return;
+    }
+    sendJson(res, 200, { ...conv, chat_messages: undefined });
+  } else if (!action && req.method === 'DELETE') {
+    conversations.delete(conv.uuid);
+    sendJson(res, 204, undefined);
+  } else {
+    sendJson(res, 405, { error: { type: 'method_not_allowed', message: `${req.method} not supported` } });
+  }
+}
+
+async function handleProject(
+  project: MockProject | undefined,
+  collection: string | undefined,
+  itemId: string | undefined,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+): Promise<void> {
+  if (!project) {
+    sendJson(res, 404, { error: { type: 'not_found_error', message: 'Project not found' } });
+    return;
+  }
+
+  const { docs: _docs, files: _files, ...summary } = project;
+
+  if (!collection && req.method === 'GET') {
+    sendJson(res, 200, summary);
+  } else if (collection === 'conversations' && req.method === 'GET') {
+    const list = Array.from(conversations.values())
+      .filter(c => c.project_uuid === project.uuid)
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+      .map(summarize);
+    sendJson(res, 200, list);
+  } else if (collection === 'docs' && !itemId && req.method === 'GET') {
+    sendJson(res, 200, project.docs);
+  } else if (collection === 'docs' && !itemId && req.method === 'POST') {
+    const body = await readJson(req);
+    const doc: MockDoc = {
+      uuid: crypto.randomUUID(),
+      file_name: (body.file_name as string) || 'untitled.txt',
+      content: (body.content as string) || '',
+      created_at: new Date().toISOString()
+    };
+    project.docs.push(doc);
+    project.updated_at = doc.created_at;
+    sendJson(res, 201, doc);
+  } else if (collection === 'files' && !itemId && req.method === 'GET') {
+    sendJson(res, 200, project.files);
+  } else if (collection === 'files' && !itemId && req.method === 'POST') {
+    const body = await readJson(req);
+    const file = uploads.get(body.file_uuid as string);
+    if (!file) {
+      sendJson(res, 404, { error: { type: 'not_found_error', message: 'File not found' } });
+      return;
+    }
+    project.files.push(file);
+    project.updated_at = new Date().toISOString();
+    sendJson(res, 201, file);
+  } else if ((collection === 'docs' || collection === 'files') && itemId && req.method === 'DELETE') {
+    if (collection === 'docs') {
+      project.docs = project.docs.filter(d => d.uuid !== itemId);
+    } else {
+      project.files = project.files.filter(f => f.file_uuid !== itemId);
+    }
+    sendJson(res, 204, undefined);
+  } else {
+    sendJson(res, 405, { error: { type: 'method_not_allowed', message: `${req.method} not supported` } });
+  }
+}
+
+async function route(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const parts = url.pathname.split('/').filter(Boolean);
+
+  if (url.pathname === '/login') {
+    handleLogin(res);
+    return;
+  }
+
+  // /api/organizations
+  if (url.pathname === '/api/organizations' && req.method === 'GET') {
+    sendJson(res, 200, MOCK_ORGANIZATIONS);
+    return;
+  }
+
+  // /api/{org}/upload
+  if (parts[0] === 'api' && parts[2] === 'upload' && req.method === 'POST') {
+    await handleUpload(req, res);
+    return;
+  }
+
+  // /api/organizations/{org}/chat_conversations[/{id}[/{action}]]
+  if (parts[0] === 'api' && parts[1] === 'organizations' && parts[3] === 'chat_conversations') {
+    const [, , , , convId, action] = parts;
+
+    if (!convId && req.method === 'GET') {
+      const limit = Number(url.searchParams.get('limit')) || 30;
+      const offset = Number(url.searchParams.get('offset')) || 0;
+      const list = Array.from(conversations.values())
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+        .slice(offset, offset + limit)
+        .map(summarize);
+      sendJson(res, 200, list);
+      return;
+    }
+
+    if (!convId && req.method === 'POST') {
+      const body = await readJson(req);
+      const conv = createConversation(
+        (body.uuid as string) || crypto.randomUUID(),
+        (body.name as string) || '',
+        (body.model as string) || 'claude-sonnet-4-5-20250929',
+        undefined,
+        (body.project_uuid as string) || null
+      );
+      sendJson(res, 201, summarize(conv));
+      return;
+    }
+
+    await handleConversation(conversations.get(convId), action, req, res);
+    return;
+  }
+
+  // /api/organizations/{org}/models
+  if (parts[0] === 'api' && parts[1] === 'organizations' && parts[3] === 'models' && req.method === 'GET') {
+    sendJson(res, 200, { models: MOCK_MODELS });
+    return;
+  }
+
+  // /api/organizations/{org}/list_styles
+  if (parts[0] === 'api' && parts[1] === 'organizations' && parts[3] === 'list_styles' && req.method === 'GET') {
+    sendJson(res, 200, { defaultStyles: BUILTIN_STYLES, customStyles: [] });
+    return;
+  }
+
+  // /api/organizations/{org}/projects[/{id}[/{collection}[/{itemId}]]]
+  if (parts[0] === 'api' && parts[1] === 'organizations' && parts[3] === 'projects') {
+    const [, , , , projectId, collection, itemId] = parts;
+
+    if (!projectId && req.method === 'GET') {
+      const list = Array.from(projects.values())
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+        .map(({ docs: _docs, files: _files, ...summary }) => summary);
+      sendJson(res, 200, list);
+      return;
+    }
+
+    await handleProject(projects.get(projectId), collection, itemId, req, res);
+    return;
+  }
+
+  sendJson(res, 404, { error: { type: 'not_found_error', message: `No mock for ${req.method} ${url.pathname}` } });
+}
+
+// Start the mock server on the given port
+export function startMockServer(port: number): Promise<http.Server> {
+  if (conversations.size === 0) {
+    seedConversations();
+    seedProjects();
+  }
+
+  const server = http.createServer((req, res) => {
+    route(req, res).catch((err) => {
+      console.error('[Mock] Request failed:', err);
+      if (!res.headersSent) sendJson(res, 500, { error: { type: 'api_error', message: String(err) } });
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, 'localhost', () => {
+      console.log(`[Mock] Listening on http://localhost:${port}`);
+      resolve(server);
+    });
+  });
+}
+
+// Allow running standalone: node dist/mock/server.js [port]
+if (require.main === module) {
+  startMockServer(Number(process.argv[2]) || 8787);
+}
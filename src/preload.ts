@@ -1,24 +1,65 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, webUtils } from 'electron';
 
 contextBridge.exposeInMainWorld('claude', {
   getAuthStatus: () => ipcRenderer.invoke('get-auth-status'),
   login: () => ipcRenderer.invoke('login'),
   logout: () => ipcRenderer.invoke('logout'),
-  createConversation: (model?: string) => ipcRenderer.invoke('create-conversation', model),
-  getConversations: () => ipcRenderer.invoke('get-conversations'),
+  getAccounts: (refresh?: boolean) => ipcRenderer.invoke('get-accounts', refresh),
+  switchAccount: (accountId: string, orgId?: string) => ipcRenderer.invoke('switch-account', accountId, orgId),
+  createConversation: (model?: string, projectUuid?: string) => ipcRenderer.invoke('create-conversation', model, projectUuid),
+  getConversations: (options?: { limit?: number; offset?: number }) => ipcRenderer.invoke('get-conversations', options || {}),
+  getProjects: () => ipcRenderer.invoke('get-projects'),
+  loadProject: (projectUuid: string) => ipcRenderer.invoke('load-project', projectUuid),
+  uploadProjectKnowledge: (projectUuid: string, files: Array<{ name: string; size: number; type: string; data?: ArrayBuffer | Uint8Array | number[]; path?: string }>) =>
+    ipcRenderer.invoke('upload-project-knowledge', projectUuid, files),
+  deleteProjectKnowledge: (projectUuid: string, kind: 'doc' | 'file', uuid: string) =>
+    ipcRenderer.invoke('delete-project-knowledge', projectUuid, kind, uuid),
   loadConversation: (convId: string) => ipcRenderer.invoke('load-conversation', convId),
   deleteConversation: (convId: string) => ipcRenderer.invoke('delete-conversation', convId),
   renameConversation: (convId: string, name: string) => ipcRenderer.invoke('rename-conversation', convId, name),
   starConversation: (convId: string, isStarred: boolean) => ipcRenderer.invoke('star-conversation', convId, isStarred),
   exportConversationMarkdown: (conversationData: { title: string; messages: Array<{ role: string; content: string; timestamp?: string }> }) =>
     ipcRenderer.invoke('export-conversation-markdown', conversationData),
+  saveArtifact: (conversationId: string, artifactId: string, versionIndex: number) =>
+    ipcRenderer.invoke('save-artifact', conversationId, artifactId, versionIndex),
   generateTitle: (convId: string, messageContent: string, recentTitles?: string[]) => ipcRenderer.invoke('generate-title', convId, messageContent, recentTitles || []),
-  sendMessage: (conversationId: string, message: string, parentMessageUuid: string, attachments?: unknown[]) =>
-    ipcRenderer.invoke('send-message', conversationId, message, parentMessageUuid, attachments || []),
-  uploadAttachments: (files: Array<{ name: string; size: number; type: string; data: ArrayBuffer | Uint8Array | number[] }>) =>
+  sendMessage: (conversationId: string, message: string, parentMessageUuid: string, attachments?: unknown[], options?: { styleKey?: string; tools?: Record<string, boolean>; thinking?: { enabled: boolean; budgetTokens: number } }) =>
+    ipcRenderer.invoke('send-message', conversationId, message, parentMessageUuid, attachments || [], options || {}),
+  getStyles: (refresh?: boolean) => ipcRenderer.invoke('get-styles', refresh || false),
+  getModels: (refresh?: boolean) => ipcRenderer.invoke('get-models', refresh || false),
+  getConversationPreferences: (conversationId: string) => ipcRenderer.invoke('get-conversation-preferences', conversationId),
+  setConversationPreferences: (conversationId: string, preferences: { styleKey?: string; tools?: Record<string, boolean>; thinking?: { enabled: boolean; budgetTokens: number } }) =>
+    ipcRenderer.invoke('set-conversation-preferences', conversationId, preferences),
+  uploadAttachments: (files: Array<{ uploadId: string; name: string; size: number; type: string; data?: ArrayBuffer | Uint8Array | number[]; path?: string }>) =>
     ipcRenderer.invoke('upload-attachments', files),
+  // Path of a file picked or dropped from disk; '' for one made in memory
+  getPathForFile: (file: File) => webUtils.getPathForFile(file),
+  cancelUpload: (uploadId: string) => ipcRenderer.invoke('cancel-upload', uploadId),
+  onUploadProgress: (callback: (data: { uploadId: string; loaded: number; total: number }) => void) => {
+    ipcRenderer.on('upload-progress', (_event, data) => callback(data));
+  },
   stopResponse: (conversationId: string) => ipcRenderer.invoke('stop-response', conversationId),
 
+  // Offline outbox
+  getOutbox: () => ipcRenderer.invoke('get-outbox'),
+  queueMessage: (message: { conversationId: string; newConversation?: { model?: string; projectUuid?: string }; message: string; parentMessageUuid: string; attachments: unknown[]; options: unknown }) =>
+    ipcRenderer.invoke('queue-message', message),
+  discardOutboxItem: (id: string) => ipcRenderer.invoke('discard-outbox-item', id),
+  editOutboxItem: (id: string, message: string) => ipcRenderer.invoke('edit-outbox-item', id, message),
+  retryOutboxItem: (id: string) => ipcRenderer.invoke('retry-outbox-item', id),
+  onOutboxChanged: (callback: (state: { online: boolean; items: unknown[] }) => void) => {
+    ipcRenderer.on('outbox-changed', (_event, state) => callback(state));
+  },
+  onOutboxSent: (callback: (data: { id: string; conversationId: string; messageUuid?: string }) => void) => {
+    ipcRenderer.on('outbox-sent', (_event, data) => callback(data));
+  },
+
+  // Usage limits
+  getQuota: () => ipcRenderer.invoke('get-quota'),
+  onQuotaChanged: (callback: (state: { orgId: string; limit: unknown; updatedAt: number }) => void) => {
+    ipcRenderer.on('quota-changed', (_event, state) => callback(state));
+  },
+
   // Stream listeners
   onMessageStream: (callback: (data: { conversationId: string; text: string; fullText: string }) => void) => {
     ipcRenderer.on('message-stream', (_event, data) => callback(data));
@@ -35,7 +76,10 @@ contextBridge.exposeInMainWorld('claude', {
       toolResult?: unknown;
       isError?: boolean;
     }>;
-    messageUuid: string
+    messageUuid: string;
+    aborted?: boolean;
+    endReason?: 'completed' | 'truncated' | 'errored' | 'aborted';
+    error?: string;
   }) => void) => {
     ipcRenderer.on('message-complete', (_event, data) => callback(data));
   },
@@ -45,20 +89,35 @@ contextBridge.exposeInMainWorld('claude', {
   onMessageThinkingStream: (callback: (data: { conversationId: string; blockIndex: number; thinking: string }) => void) => {
     ipcRenderer.on('message-thinking-stream', (_event, data) => callback(data));
   },
-  onMessageToolUse: (callback: (data: { conversationId: string; blockIndex: number; toolName: string; message: string; input?: string; isRunning: boolean }) => void) => {
+  onMessageToolUse: (callback: (data: { conversationId: string; blockIndex: number; toolUseId?: string; toolName: string; message: string; input?: string; isRunning: boolean }) => void) => {
     ipcRenderer.on('message-tool-use', (_event, data) => callback(data));
   },
-  onMessageToolResult: (callback: (data: { conversationId: string; blockIndex: number; toolName: string; result?: unknown; isError: boolean }) => void) => {
+  onMessageToolInput: (callback: (data: { conversationId: string; blockIndex: number; toolUseId?: string; toolName: string; input: unknown }) => void) => {
+    ipcRenderer.on('message-tool-input', (_event, data) => callback(data));
+  },
+  onMessageToolResult: (callback: (data: { conversationId: string; blockIndex: number; toolUseId?: string; toolName: string; result?: unknown; isError: boolean }) => void) => {
     ipcRenderer.on('message-tool-result', (_event, data) => callback(data));
   },
   // Citation events (for inline source citations)
   onMessageCitation: (callback: (data: { conversationId: string; blockIndex: number; citation: { uuid: string; start_index: number; end_index?: number; url?: string; title?: string } }) => void) => {
     ipcRenderer.on('message-citation', (_event, data) => callback(data));
   },
+  // Artifacts after an artifacts tool call; artifactId is the one it changed
+  onMessageArtifacts: (callback: (data: { conversationId: string; artifactId: string; artifacts: unknown[] }) => void) => {
+    ipcRenderer.on('message-artifacts', (_event, data) => callback(data));
+  },
   // Tool approval events (for MCP tools requiring permission)
   onMessageToolApproval: (callback: (data: { conversationId: string; toolName: string; approvalKey: string; input?: unknown }) => void) => {
     ipcRenderer.on('message-tool-approval', (_event, data) => callback(data));
   },
+  // Retry notices while a completion is being retried
+  onMessageRetry: (callback: (data: { conversationId: string; attempt: number; maxAttempts: number; delayMs: number; error: { kind: string; status?: number; message: string } }) => void) => {
+    ipcRenderer.on('message-retry', (_event, data) => callback(data));
+  },
+  // A recorded stream is about to be replayed into this window
+  onReplayStart: (callback: (data: { conversationId: string; prompt: string; title: string }) => void) => {
+    ipcRenderer.on('replay-start', (_event, data) => callback(data));
+  },
   // Compaction status (conversation compaction)
   onMessageCompaction: (callback: (data: { conversationId: string; status: string; message?: string }) => void) => {
     ipcRenderer.on('message-compaction', (_event, data) => callback(data));
@@ -69,10 +128,13 @@ contextBridge.exposeInMainWorld('claude', {
     ipcRenderer.removeAllListeners('message-thinking');
     ipcRenderer.removeAllListeners('message-thinking-stream');
     ipcRenderer.removeAllListeners('message-tool-use');
+    ipcRenderer.removeAllListeners('message-tool-input');
     ipcRenderer.removeAllListeners('message-tool-result');
     ipcRenderer.removeAllListeners('message-citation');
+    ipcRenderer.removeAllListeners('message-artifacts');
     ipcRenderer.removeAllListeners('message-tool-approval');
     ipcRenderer.removeAllListeners('message-compaction');
+    ipcRenderer.removeAllListeners('message-retry');
   },
 
   // Spotlight functions
@@ -81,7 +143,7 @@ contextBridge.exposeInMainWorld('claude', {
   onSpotlightStream: (callback: (data: { text: string; fullText: string }) => void) => {
     ipcRenderer.on('spotlight-stream', (_event, data) => callback(data));
   },
-  onSpotlightComplete: (callback: (data: { fullText: string }) => void) => {
+  onSpotlightComplete: (callback: (data: { fullText: string; messageUuid?: string; endReason?: string; error?: string }) => void) => {
     ipcRenderer.on('spotlight-complete', (_event, data) => callback(data));
   },
   onSpotlightThinking: (callback: (data: { isThinking: boolean; thinkingText?: string }) => void) => {
@@ -90,19 +152,28 @@ contextBridge.exposeInMainWorld('claude', {
   onSpotlightThinkingStream: (callback: (data: { thinking: string }) => void) => {
     ipcRenderer.on('spotlight-thinking-stream', (_event, data) => callback(data));
   },
-  onSpotlightTool: (callback: (data: { toolName: string; isRunning: boolean; message?: string; input?: string }) => void) => {
+  onSpotlightTool: (callback: (data: { toolName: string; toolUseId?: string; isRunning: boolean; message?: string; input?: string }) => void) => {
     ipcRenderer.on('spotlight-tool', (_event, data) => callback(data));
   },
-  onSpotlightToolResult: (callback: (data: { toolName: string; isError: boolean; result?: unknown }) => void) => {
+  onSpotlightToolInput: (callback: (data: { toolName: string; toolUseId?: string; input: unknown }) => void) => {
+    ipcRenderer.on('spotlight-tool-input', (_event, data) => callback(data));
+  },
+  onSpotlightToolResult: (callback: (data: { toolName: string; toolUseId?: string; isError: boolean; result?: unknown }) => void) => {
     ipcRenderer.on('spotlight-tool-result', (_event, data) => callback(data));
   },
+  onSpotlightRetry: (callback: (data: { attempt: number; maxAttempts: number; delayMs: number; error: { kind: string; status?: number; message: string } }) => void) => {
+    ipcRenderer.on('spotlight-retry', (_event, data) => callback(data));
+  },
   removeSpotlightListeners: () => {
     ipcRenderer.removeAllListeners('spotlight-stream');
     ipcRenderer.removeAllListeners('spotlight-complete');
     ipcRenderer.removeAllListeners('spotlight-thinking');
     ipcRenderer.removeAllListeners('spotlight-thinking-stream');
     ipcRenderer.removeAllListeners('spotlight-tool');
+    ipcRenderer.removeAllListeners('spotlight-tool-input');
     ipcRenderer.removeAllListeners('spotlight-tool-result');
+    ipcRenderer.removeAllListeners('spotlight-retry');
+    ipcRenderer.removeAllListeners('quota-changed');
   },
   spotlightReset: () => ipcRenderer.invoke('spotlight-reset'),
   spotlightGetHistory: () => ipcRenderer.invoke('spotlight-get-history'),
@@ -117,9 +188,27 @@ contextBridge.exposeInMainWorld('claude', {
   // Settings functions
   openSettings: () => ipcRenderer.invoke('open-settings'),
   getSettings: () => ipcRenderer.invoke('get-settings'),
-  saveSettings: (settings: { spotlightKeybind?: string; spotlightPersistHistory?: boolean; newWindowKeybind?: string }) =>
+  saveSettings: (settings: { spotlightKeybind?: string; spotlightPersistHistory?: boolean; newWindowKeybind?: string; activeBackendProfile?: string; customStyles?: unknown[]; defaultTools?: Record<string, boolean>; locale?: string; timezone?: string; imageProcessing?: { enabled: boolean; maxDimension: number; quality: number }; networkInspector?: boolean; recordStreams?: boolean; network?: { proxyMode: string; pacUrl: string; proxyRules: string; bypassList: string; caBundlePath: string } }) =>
     ipcRenderer.invoke('save-settings', settings),
+  getBackendProfiles: () => ipcRenderer.invoke('get-backend-profiles'),
+
+  // Proxy and certificates
+  getProxyCredentials: () => ipcRenderer.invoke('get-proxy-credentials'),
+  setProxyCredentials: (credentials: { username: string; password?: string } | null) => ipcRenderer.invoke('set-proxy-credentials', credentials),
+  chooseCABundle: () => ipcRenderer.invoke('choose-ca-bundle'),
+  testConnection: () => ipcRenderer.invoke('test-connection'),
+
+  // Network inspector
+  openNetworkInspector: () => ipcRenderer.invoke('open-network-inspector'),
+  getNetworkEntries: () => ipcRenderer.invoke('get-network-entries'),
+  clearNetworkEntries: () => ipcRenderer.invoke('clear-network-entries'),
+  exportNetworkLog: (format: 'har' | 'ndjson') => ipcRenderer.invoke('export-network-log', format),
+  listMainWindows: () => ipcRenderer.invoke('list-main-windows'),
+  replaySSERecording: (options: { windowId: number; speed: number }) => ipcRenderer.invoke('replay-sse-recording', options),
+  onNetworkEntry: (callback: (entry: unknown) => void) => {
+    ipcRenderer.on('network-entry', (_event, entry) => callback(entry));
+  },
 
   // Window management
-  newWindow: () => ipcRenderer.invoke('new-window'),
+  newWindow: (accountId?: string) => ipcRenderer.invoke('new-window', accountId),
 });
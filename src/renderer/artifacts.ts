@@ -0,0 +1,173 @@
+// Artifacts side panel: the conversation's artifacts, each version of the
+// selected one, and the changes between any two of its versions (from the
+// previous one unless another base is picked)
+
+import { diffLines } from './diff.js';
+import type { Artifact, ArtifactCommand } from '../types';
+
+const COMMAND_LABELS: Record<ArtifactCommand, string> = {
+  create: 'Created',
+  update: 'Edited',
+  rewrite: 'Rewritten'
+};
+
+export interface ArtifactsPanel {
+  // Replace the list. Opens the panel on focusId's latest version when given.
+  setArtifacts(conversationId: string | null, artifacts: Artifact[], focusId?: string): void;
+  // Open at the version a tool call produced; false if there isn't one
+  showToolUse(toolUseId: string): boolean;
+}
+
+export function createArtifactsPanel(onDownload: (conversationId: string, artifactId: string, versionIndex: number) => void): ArtifactsPanel {
+  const panel = document.getElementById('artifacts-panel') as HTMLElement;
+  const toggleBtn = document.getElementById('artifacts-btn') as HTMLButtonElement;
+  const countEl = document.getElementById('artifacts-count') as HTMLElement;
+  const select = document.getElementById('artifacts-select') as HTMLSelectElement;
+  const versionEl = document.getElementById('artifact-version') as HTMLElement;
+  const prevBtn = document.getElementById('artifact-prev') as HTMLButtonElement;
+  const nextBtn = document.getElementById('artifact-next') as HTMLButtonElement;
+  const diffToggle = document.getElementById('artifact-diff') as HTMLInputElement;
+  const diffBase = document.getElementById('artifact-diff-base') as HTMLSelectElement;
+  const copyBtn = document.getElementById('artifact-copy') as HTMLButtonElement;
+  const noticeEl = document.getElementById('artifact-notice') as HTMLElement;
+  const contentEl = document.getElementById('artifact-content') as HTMLElement;
+
+  let conversationId: string | null = null;
+  let artifacts: Artifact[] = [];
+  let selected: Artifact | null = null;
+  let versionIndex = 0;
+  // Version the changes are shown against; -1 compares with nothing
+  let baseIndex = -1;
+
+  const setOpen = (open: boolean) => {
+    panel.classList.toggle('open', open);
+    document.body.classList.toggle('artifacts-open', open);
+  };
+
+  const show = (artifact: Artifact | null, index?: number) => {
+    selected = artifact;
+    versionIndex = artifact ? Math.min(index ?? artifact.versions.length - 1, artifact.versions.length - 1) : 0;
+    baseIndex = versionIndex - 1;
+    render();
+  };
+
+  const renderDiffBase = () => {
+    diffBase.hidden = !diffToggle.checked || !selected;
+    if (!selected) return;
+    const options = [{ value: -1, label: 'Empty' }];
+    selected.versions.forEach((_version, i) => {
+      if (i !== versionIndex) options.push({ value: i, label: `Version ${i + 1}` });
+    });
+    diffBase.replaceChildren(...options.map(({ value, label }) => {
+      const option = document.createElement('option');
+      option.value = String(value);
+      option.textContent = label;
+      return option;
+    }));
+    diffBase.value = String(baseIndex);
+  };
+
+  const renderContent = () => {
+    contentEl.replaceChildren();
+    renderDiffBase();
+    if (!selected) return;
+    const version = selected.versions[versionIndex];
+    if (!diffToggle.checked) {
+      contentEl.textContent = version.content;
+      return;
+    }
+    const before = baseIndex >= 0 ? selected.versions[baseIndex].content : '';
+    for (const line of diffLines(before, version.content)) {
+      const row = document.createElement('div');
+      row.className = `diff-line ${line.type}`;
+      row.textContent = `${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '} ${line.text}`;
+      contentEl.appendChild(row);
+    }
+  };
+
+  const render = () => {
+    toggleBtn.classList.toggle('visible', artifacts.length > 0);
+    countEl.textContent = String(artifacts.length);
+
+    select.replaceChildren(...artifacts.map(artifact => {
+      const option = document.createElement('option');
+      option.value = artifact.id;
+      option.textContent = artifact.versions[artifact.versions.length - 1].title;
+      return option;
+    }));
+    if (selected) select.value = selected.id;
+
+    const version = selected?.versions[versionIndex];
+    versionEl.textContent = version
+      ? `${COMMAND_LABELS[version.command]} · version ${versionIndex + 1} of ${selected!.versions.length}`
+      : '';
+    prevBtn.disabled = !version || versionIndex === 0;
+    nextBtn.disabled = !version || versionIndex === selected!.versions.length - 1;
+    noticeEl.textContent = version?.failed ? 'This edit could not be applied: the text it replaces was not found.' : '';
+    noticeEl.classList.toggle('visible', !!version?.failed);
+    renderContent();
+  };
+
+  select.addEventListener('change', () => {
+    show(artifacts.find(artifact => artifact.id === select.value) || null);
+  });
+  prevBtn.addEventListener('click', () => show(selected, versionIndex - 1));
+  nextBtn.addEventListener('click', () => show(selected, versionIndex + 1));
+  diffToggle.addEventListener('change', renderContent);
+  diffBase.addEventListener('change', () => {
+    baseIndex = Number(diffBase.value);
+    renderContent();
+  });
+
+  copyBtn.addEventListener('click', async () => {
+    const version = selected?.versions[versionIndex];
+    if (!version) return;
+    try {
+      await navigator.clipboard.writeText(version.content);
+      copyBtn.textContent = 'Copied';
+      setTimeout(() => { copyBtn.textContent = 'Copy'; }, 1500);
+    } catch (e) {
+      console.error('Failed to copy artifact:', e);
+    }
+  });
+
+  document.getElementById('artifact-download')?.addEventListener('click', () => {
+    if (conversationId && selected) onDownload(conversationId, selected.id, versionIndex);
+  });
+  document.getElementById('artifacts-close')?.addEventListener('click', () => setOpen(false));
+  toggleBtn.addEventListener('click', () => setOpen(!panel.classList.contains('open')));
+
+  return {
+    setArtifacts(id, list, focusId) {
+      const sameConversation = id === conversationId;
+      conversationId = id;
+      artifacts = list;
+      const focus = focusId ? artifacts.find(artifact => artifact.id === focusId) : undefined;
+      if (focus) {
+        show(focus);
+        setOpen(true);
+        return;
+      }
+      // Within a conversation keep the selection (its version and diff base) if it's still there
+      const current = sameConversation && selected ? artifacts.find(artifact => artifact.id === selected!.id) : undefined;
+      const base = baseIndex;
+      show(current || artifacts[0] || null, current ? versionIndex : undefined);
+      if (current) {
+        baseIndex = base;
+        renderContent();
+      }
+      if (!sameConversation || artifacts.length === 0) setOpen(false);
+    },
+    showToolUse(toolUseId) {
+      for (const artifact of artifacts) {
+        const index = artifact.versions.findIndex(version => version.toolUseId === toolUseId);
+        if (index !== -1) {
+          show(artifact, index);
+          setOpen(true);
+          return true;
+        }
+      }
+      return false;
+    }
+  };
+}
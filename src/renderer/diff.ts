@@ -0,0 +1,62 @@
+// Line diff for comparing artifact versions
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many line pairs the changed middle is shown as removed then
+// added instead of being aligned
+const MAX_DIFF_CELLS = 4_000_000;
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Lines shared at the start and end don't need aligning
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const lines: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  const n = endA - start;
+  const m = endB - start;
+
+  if (n * m > MAX_DIFF_CELLS) {
+    for (let i = start; i < endA; i++) lines.push({ type: 'removed', text: a[i] });
+    for (let j = start; j < endB; j++) lines.push({ type: 'added', text: b[j] });
+  } else {
+    // Longest common subsequence lengths of the suffixes, then walk forward
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] = a[start + i] === b[start + j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        lines.push({ type: 'same', text: a[start + i] });
+        i++;
+        j++;
+      } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+        lines.push({ type: 'removed', text: a[start + i] });
+        i++;
+      } else {
+        lines.push({ type: 'added', text: b[start + j] });
+        j++;
+      }
+    }
+  }
+
+  for (let k = endA; k < a.length; k++) lines.push({ type: 'same', text: a[k] });
+  return lines;
+}
@@ -0,0 +1,45 @@
+import type { ImageProcessingSettings } from '../types';
+
+// Image preprocessing before upload. Redrawing onto a canvas applies the EXIF
+// orientation, lets us downscale, and drops every metadata block (EXIF, GPS,
+// XMP) because the encoder only writes pixels.
+
+// Types the renderer can decode and re-encode. GIFs are left alone so
+// animations survive; anything else (HEIC, SVG…) uploads unchanged.
+const REENCODABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export function isProcessableImage(file: File): boolean {
+  return REENCODABLE_TYPES.includes(file.type);
+}
+
+// Downscale to fit maxDimension, fix orientation and strip metadata.
+// Returns the original file when processing is off or the type isn't supported.
+export async function preprocessImage(file: File, settings: ImageProcessingSettings): Promise<File> {
+  if (!settings.enabled || !isProcessableImage(file)) return file;
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (e) {
+    console.warn(`Could not decode ${file.name}, uploading it unchanged:`, e);
+    return file;
+  }
+
+  try {
+    const scale = Math.min(1, settings.maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) return file;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    // Quality only applies to JPEG and WebP; PNG stays lossless
+    const blob = await canvas.convertToBlob({ type: file.type, quality: settings.quality / 100 });
+    return new File([blob], file.name, { type: blob.type || file.type, lastModified: file.lastModified });
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,222 @@
+// Network inspector renderer
+
+import type { NetworkEntry } from '../types';
+
+const claude = (window as any).claude;
+
+type DetailTab = 'headers' | 'request' | 'response' | 'events';
+
+// DOM Elements
+const recordingStatus = document.getElementById('recording-status') as HTMLElement;
+const filterInput = document.getElementById('inspector-filter') as HTMLInputElement;
+const clearButton = document.getElementById('inspector-clear') as HTMLButtonElement;
+const exportHarButton = document.getElementById('inspector-export-har') as HTMLButtonElement;
+const exportNdjsonButton = document.getElementById('inspector-export-ndjson') as HTMLButtonElement;
+const requestRows = document.getElementById('request-rows') as HTMLElement;
+const requestEmpty = document.getElementById('request-empty') as HTMLElement;
+const requestDetail = document.getElementById('request-detail') as HTMLElement;
+const detailContent = document.getElementById('detail-content') as HTMLElement;
+const footer = document.getElementById('inspector-footer') as HTMLElement;
+const detailTabs = Array.from(document.querySelectorAll<HTMLButtonElement>('.detail-tab'));
+
+// State
+let entries: NetworkEntry[] = [];
+let recording = false;
+let selectedId: string | null = null;
+let activeTab: DetailTab = 'headers';
+let renderQueued = false;
+
+function escapeHtml(text: string): string {
+  const div = document.createElement('div');
+  div.textContent = text || '';
+  return div.innerHTML;
+}
+
+function formatSize(bytes: number): string {
+  if (!bytes) return '—';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatDuration(entry: NetworkEntry): string {
+  if (entry.finishedAt === undefined) return '…';
+  return entry.finishedAt < 1000 ? `${entry.finishedAt} ms` : `${(entry.finishedAt / 1000).toFixed(2)} s`;
+}
+
+function displayUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname + parsed.search;
+  } catch {
+    return url;
+  }
+}
+
+function statusLabel(entry: NetworkEntry): string {
+  if (entry.status) return String(entry.status);
+  if (entry.state === 'pending') return '…';
+  return entry.state === 'aborted' ? 'aborted' : 'failed';
+}
+
+function visibleEntries(): NetworkEntry[] {
+  const filter = filterInput.value.trim().toLowerCase();
+  if (!filter) return entries;
+  return entries.filter(e => e.url.toLowerCase().includes(filter) || e.method.toLowerCase() === filter);
+}
+
+// Pretty-print JSON bodies, leave anything else as is
+function formatBody(body: string | undefined): string {
+  if (body === undefined) return '<div class="detail-empty">No body</div>';
+  let text = body;
+  try {
+    text = JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    // Not JSON
+  }
+  return `<div class="detail-body">${escapeHtml(text)}</div>`;
+}
+
+function renderHeaders(title: string, headers: Record<string, string>): string {
+  const rows = Object.entries(headers).map(([name, value]) => `
+    <div class="header-row"><span class="header-name">${escapeHtml(name)}:</span><span>${escapeHtml(value)}</span></div>
+  `).join('');
+  return `<div class="detail-section"><h3>${title}</h3>${rows || '<div class="detail-empty">None</div>'}</div>`;
+}
+
+function renderDetail() {
+  const entry = entries.find(e => e.id === selectedId);
+  requestDetail.classList.toggle('visible', !!entry);
+  if (!entry) return;
+
+  detailTabs.forEach(tab => tab.classList.toggle('active', tab.dataset.tab === activeTab));
+
+  switch (activeTab) {
+    case 'headers': {
+      const summary: Record<string, string> = {
+        'Request URL': entry.url,
+        'Method': entry.method,
+        'Status': statusLabel(entry),
+        'Started': new Date(entry.startedAt).toLocaleTimeString(),
+        'Waiting': entry.responseAt !== undefined ? `${entry.responseAt} ms` : '…',
+        'Total': formatDuration(entry)
+      };
+      if (entry.error) summary['Error'] = entry.error;
+      detailContent.innerHTML = renderHeaders('General', summary) +
+        renderHeaders('Request Headers', entry.requestHeaders) +
+        renderHeaders('Response Headers', entry.responseHeaders);
+      break;
+    }
+    case 'request':
+      detailContent.innerHTML = formatBody(entry.requestBody);
+      break;
+    case 'response':
+      detailContent.innerHTML = entry.state === 'pending' && entry.responseBody === undefined
+        ? `<div class="detail-empty">Receiving… ${formatSize(entry.responseBodySize)}</div>`
+        : formatBody(entry.responseBody);
+      break;
+    case 'events':
+      detailContent.innerHTML = entry.events.length === 0
+        ? '<div class="detail-empty">No server-sent events</div>'
+        : entry.events.map(event => `
+          <div class="event-row">
+            <span class="event-time">${event.time} ms</span>
+            <span class="event-name">${escapeHtml(event.event || 'message')}</span>
+            <span class="event-data">${escapeHtml(event.data)}</span>
+          </div>
+        `).join('');
+      break;
+  }
+}
+
+function render() {
+  renderQueued = false;
+  const visible = visibleEntries();
+
+  requestRows.innerHTML = visible.map(entry => {
+    const classes = ['request-row', entry.state];
+    if (entry.id === selectedId) classes.push('selected');
+    if (entry.status && entry.status >= 400) classes.push('error');
+    return `
+      <tr class="${classes.join(' ')}" data-id="${entry.id}">
+        <td class="col-method">${escapeHtml(entry.method)}</td>
+        <td class="col-status">${escapeHtml(statusLabel(entry))}</td>
+        <td class="col-url" title="${escapeHtml(entry.url)}">${escapeHtml(displayUrl(entry.url))}</td>
+        <td class="col-time">${formatDuration(entry)}</td>
+        <td class="col-size">${formatSize(entry.responseBodySize)}</td>
+      </tr>
+    `;
+  }).join('');
+
+  requestEmpty.style.display = visible.length === 0 ? 'block' : 'none';
+  requestEmpty.textContent = entries.length > 0
+    ? 'No requests match the filter'
+    : recording ? 'Waiting for requests…' : 'Recording is off. Turn on "Record Network Traffic" in Settings → Developer.';
+
+  recordingStatus.textContent = recording ? 'Recording' : 'Not recording';
+  recordingStatus.classList.toggle('on', recording);
+  footer.textContent = `${visible.length} of ${entries.length} requests`;
+
+  renderDetail();
+}
+
+// Streams update many times a second; draw once per frame
+function scheduleRender() {
+  if (renderQueued) return;
+  renderQueued = true;
+  requestAnimationFrame(render);
+}
+
+async function loadEntries() {
+  const result: { recording: boolean; entries: NetworkEntry[] } = await claude.getNetworkEntries();
+  recording = result.recording;
+  entries = result.entries;
+  render();
+}
+
+async function exportLog(format: 'har' | 'ndjson') {
+  const result = await claude.exportNetworkLog(format);
+  if (result.error) {
+    footer.textContent = result.error;
+  }
+}
+
+// Event listeners
+claude.onNetworkEntry((entry: NetworkEntry) => {
+  const index = entries.findIndex(e => e.id === entry.id);
+  if (index >= 0) entries[index] = entry;
+  else entries.push(entry);
+  scheduleRender();
+});
+
+requestRows.addEventListener('click', (e) => {
+  const row = (e.target as HTMLElement).closest<HTMLElement>('.request-row');
+  if (!row?.dataset.id) return;
+  selectedId = row.dataset.id === selectedId ? null : row.dataset.id;
+  render();
+});
+
+detailTabs.forEach(tab => {
+  tab.addEventListener('click', () => {
+    activeTab = tab.dataset.tab as DetailTab;
+    renderDetail();
+  });
+});
+
+filterInput.addEventListener('input', scheduleRender);
+
+clearButton.addEventListener('click', async () => {
+  await claude.clearNetworkEntries();
+  entries = [];
+  selectedId = null;
+  render();
+});
+
+exportHarButton.addEventListener('click', () => exportLog('har'));
+exportNdjsonButton.addEventListener('click', () => exportLog('ndjson'));
+
+// Recording can be toggled in the settings window while this one is open
+window.addEventListener('focus', loadEntries);
+
+// Initialize
+loadEntries();
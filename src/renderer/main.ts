@@ -1,4 +1,39 @@
 import { parseMarkdown } from './markdown.js';
+import { preprocessImage, isProcessableImage } from './images.js';
+import { isTextFile, readTextAttachment } from './text-files.js';
+import { createQuotaBanner, describeUsageLimit } from './quota.js';
+import { describeToolInput, artifactCommandLabel } from './tool-input.js';
+import { createArtifactsPanel } from './artifacts.js';
+import { findToolCall } from '../streaming/tool-pairing.js';
+import type {
+  ApiErrorInfo,
+  Artifact,
+  AttachmentPayload,
+  ConversationSummary,
+  LoadedConversation,
+  ConversationPage,
+  MessageContentBlock,
+  Project,
+  ProjectDetail,
+  ResponseStyle,
+  ConversationPreferences,
+  SendMessageOptions,
+  ToolName,
+  ToolToggles,
+  ThinkingPreference,
+  AccountInfo,
+  AccountList,
+  UploadRequest,
+  UploadProgress,
+  UploadResult,
+  ImageProcessingSettings,
+  OutboxItem,
+  OutboxState,
+  SendMessageResult,
+  QuotaState,
+  ModelCatalog,
+  ModelInfo
+} from '../types';
 
 
 declare global {
@@ -7,87 +42,58 @@ declare global {
       getAuthStatus: () => Promise<boolean>;
       login: () => Promise<{ success: boolean; error?: string }>;
       logout: () => Promise<void>;
-      createConversation: (model?: string) => Promise<{ conversationId: string; parentMessageUuid: string; uuid?: string }>;
-      getConversations: () => Promise<Conversation[]>;
-      loadConversation: (convId: string) => Promise<ConversationData>;
+      getAccounts: (refresh?: boolean) => Promise<AccountList>;
+      switchAccount: (accountId: string, orgId?: string) => Promise<AccountList>;
+      createConversation: (model?: string, projectUuid?: string) => Promise<{ conversationId: string; parentMessageUuid: string; uuid?: string; model?: string }>;
+      getConversations: (options?: { limit?: number; offset?: number }) => Promise<ConversationPage>;
+      getProjects: () => Promise<Project[]>;
+      loadProject: (projectUuid: string) => Promise<ProjectDetail>;
+      uploadProjectKnowledge: (projectUuid: string, files: Array<{ name: string; size: number; type: string; data?: ArrayBuffer | Uint8Array | number[]; path?: string }>) => Promise<ProjectDetail>;
+      deleteProjectKnowledge: (projectUuid: string, kind: 'doc' | 'file', uuid: string) => Promise<{ success: boolean }>;
+      loadConversation: (convId: string) => Promise<LoadedConversation>;
       deleteConversation: (convId: string) => Promise<void>;
       renameConversation: (convId: string, name: string) => Promise<void>;
       starConversation: (convId: string, isStarred: boolean) => Promise<void>;
       exportConversationMarkdown: (conversationData: { title: string; messages: Array<{ role: string; content: string; timestamp?: string }> }) => Promise<{ success: boolean; canceled?: boolean; filePath?: string }>;
-      sendMessage: (convId: string, message: string, parentUuid: string, attachments?: AttachmentPayload[]) => Promise<void>;
+      saveArtifact: (conversationId: string, artifactId: string, versionIndex: number) => Promise<{ success: boolean; canceled?: boolean; filePath?: string; error?: string }>;
+      sendMessage: (convId: string, message: string, parentUuid: string, attachments?: AttachmentPayload[], options?: SendMessageOptions) => Promise<SendMessageResult>;
+      getStyles: (refresh?: boolean) => Promise<ResponseStyle[]>;
+      getConversationPreferences: (convId: string) => Promise<ConversationPreferences>;
+      setConversationPreferences: (convId: string, preferences: Partial<ConversationPreferences>) => Promise<ConversationPreferences>;
       stopResponse: (convId: string) => Promise<void>;
+      getOutbox: () => Promise<OutboxState>;
+      queueMessage: (message: Pick<OutboxItem, 'conversationId' | 'newConversation' | 'message' | 'parentMessageUuid' | 'attachments' | 'options'>) => Promise<OutboxItem>;
+      discardOutboxItem: (id: string) => Promise<{ discarded: boolean }>;
+      editOutboxItem: (id: string, message: string) => Promise<OutboxItem | undefined>;
+      retryOutboxItem: (id: string) => Promise<OutboxItem | undefined>;
+      onOutboxChanged: (callback: (state: OutboxState) => void) => void;
+      onOutboxSent: (callback: (data: { id: string; conversationId: string; messageUuid?: string }) => void) => void;
+      getQuota: () => Promise<QuotaState | null>;
+      getModels: (refresh?: boolean) => Promise<ModelCatalog>;
+      onQuotaChanged: (callback: (state: QuotaState) => void) => void;
       generateTitle: (convId: string, messageContent: string) => Promise<void>;
-      uploadAttachments: (files: Array<{ name: string; size: number; type: string; data: ArrayBuffer | Uint8Array | number[] }>) => Promise<UploadedAttachmentPayload[]>;
+      uploadAttachments: (files: UploadRequest[]) => Promise<UploadResult[]>;
+      getPathForFile: (file: File) => string;
+      cancelUpload: (uploadId: string) => Promise<{ aborted: boolean }>;
+      onUploadProgress: (callback: (data: UploadProgress) => void) => void;
       openSettings: () => Promise<void>;
-      getSettings: () => Promise<{ spotlightKeybind?: string; spotlightPersistHistory?: boolean }>;
+      getSettings: () => Promise<{ spotlightKeybind?: string; spotlightPersistHistory?: boolean; defaultTools?: ToolToggles; locale?: string; timezone?: string; imageProcessing?: ImageProcessingSettings }>;
       saveSettings: (settings: { spotlightKeybind?: string; spotlightPersistHistory?: boolean }) => Promise<{ spotlightKeybind?: string; spotlightPersistHistory?: boolean }>;
-      newWindow: () => Promise<{ windowId: number }>;
+      newWindow: (accountId?: string) => Promise<{ windowId: number }>;
       onMessageThinking: (callback: (data: ThinkingData) => void) => void;
       onMessageThinkingStream: (callback: (data: ThinkingStreamData) => void) => void;
       onMessageToolUse: (callback: (data: ToolUseData) => void) => void;
+      onMessageToolInput: (callback: (data: ToolInputData) => void) => void;
       onMessageToolResult: (callback: (data: ToolResultData) => void) => void;
+      onMessageArtifacts: (callback: (data: { conversationId: string; artifactId: string; artifacts: Artifact[] }) => void) => void;
       onMessageStream: (callback: (data: StreamData) => void) => void;
       onMessageComplete: (callback: (data: CompleteData) => void) => void;
+      onMessageRetry: (callback: (data: RetryData) => void) => void;
+      onReplayStart: (callback: (data: { conversationId: string; prompt: string; title: string }) => void) => void;
     };
   }
 }
 
-interface Conversation {
-  uuid: string;
-  name?: string;
-  summary?: string;
-  is_starred?: boolean;
-  updated_at: string;
-}
-
-interface ConversationData {
-  name?: string;
-  chat_messages?: Message[];
-}
-
-interface FileAsset {
-  url: string;
-  file_variant?: string;
-  primary_color?: string;
-  image_width?: number;
-  image_height?: number;
-}
-
-interface MessageFile {
-  file_kind: string;
-  file_uuid: string;
-  file_name: string;
-  created_at?: string;
-  thumbnail_url?: string;
-  preview_url?: string;
-  thumbnail_asset?: FileAsset;
-  preview_asset?: FileAsset;
-}
-
-interface Message {
-  uuid?: string;
-  sender: string;
-  content?: ContentBlock[];
-  text?: string;
-  created_at?: string;
-  files?: MessageFile[];
-  files_v2?: MessageFile[];
-}
-
-interface ContentBlock {
-  type: string;
-  text?: string;
-  thinking?: string;
-  summaries?: { summary: string }[];
-  name?: string;
-  message?: string;
-  display_content?: { text?: string };
-  input?: unknown;
-  content?: unknown[];
-  is_error?: boolean;
-  citations?: Citation[];
-}
-
 interface Citation {
   url?: string;
   title?: string;
@@ -95,22 +101,21 @@ interface Citation {
   end_index?: number;
 }
 
-interface AttachmentPayload {
-  document_id: string;
-  file_name: string;
-  file_size: number;
-  file_type: string;
-  file_url?: string;
-  extracted_content?: string;
-}
-
-interface UploadedAttachmentPayload extends AttachmentPayload {}
-
 interface UploadedAttachment extends AttachmentPayload {
   id: string;
   previewUrl?: string;
 }
 
+// File still being uploaded; id doubles as the uploadId
+interface UploadingAttachment {
+  id: string;
+  file_name: string;
+  file_size: number;
+  file_type: string;
+  loaded: number;
+  total: number;
+}
+
 interface ThinkingData {
   conversationId: string;
   blockIndex: number;
@@ -128,15 +133,25 @@ interface ThinkingStreamData {
 interface ToolUseData {
   conversationId: string;
   blockIndex: number;
+  toolUseId?: string;
   toolName: string;
   message?: string;
   input?: unknown;
   isRunning: boolean;
 }
 
+interface ToolInputData {
+  conversationId: string;
+  blockIndex: number;
+  toolUseId?: string;
+  toolName: string;
+  input: unknown;
+}
+
 interface ToolResultData {
   conversationId: string;
   blockIndex: number;
+  toolUseId?: string;
   toolName: string;
   result: unknown;
   isError: boolean;
@@ -153,6 +168,18 @@ interface CompleteData {
   fullText: string;
   steps: Step[];
   messageUuid: string;
+  aborted?: boolean;
+  // Set when the stream didn't complete normally
+  endReason?: 'completed' | 'truncated' | 'errored' | 'aborted';
+  error?: string;
+}
+
+interface RetryData {
+  conversationId: string;
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: ApiErrorInfo;
 }
 
 interface Step {
@@ -161,6 +188,7 @@ interface Step {
   thinkingText?: string;
   thinkingSummary?: string;
   summary?: string;
+  toolUseId?: string;
   toolName?: string;
   toolMessage?: string;
   message?: string;
@@ -170,12 +198,17 @@ interface Step {
   isActive?: boolean;
   index?: number;
   citations?: Citation[];
+  start_timestamp?: string;
+  stop_timestamp?: string;
+  cut_off?: boolean;
 }
 
 interface StreamingBlock {
   text?: string;
   summary?: string;
   isActive?: boolean;
+  // tool_use id
+  id?: string;
   name?: string;
   message?: string;
   input?: unknown;
@@ -190,20 +223,54 @@ let parentMessageUuid: string | null = null;
 let isLoading = false;
 let currentStreamingElement: HTMLElement | null = null;
 let streamingMessageUuid: string | null = null;
-let conversations: Conversation[] = [];
-let selectedModel = 'claude-opus-4-5-20251101';
+let conversations: ConversationSummary[] = [];
+let conversationsNextOffset = 0;
+let conversationsHasMore = false;
+// The page being loaded; later calls wait for it instead of starting another
+let loadingMoreConversations: Promise<boolean> | null = null;
+// Why the last page failed; pagination stays on and the footer offers a retry
+let conversationsLoadError: string | null = null;
+let loadingAllConversations = false;
+// Bumped by each refresh; pages requested before it are dropped
+let conversationsVersion = 0;
+let sidebarView: 'chats' | 'projects' = 'chats';
+let projects: Project[] = [];
+let openProject: ProjectDetail | null = null;
+let activeProject: Project | null = null; // project new chats are created in
+let uploadingKnowledge = false;
+let knowledgeError = '';
+let modelCatalog: ModelCatalog | null = null;
+let selectedModel = ''; // set from the catalog default
+let conversationModel: string | null = null; // model of the open conversation
+let availableStyles: ResponseStyle[] = [];
+let selectedStyleKey: string | undefined;
+let defaultTools: ToolToggles = { web_search: true, artifacts: true, repl: true };
+let toolOverrides: Partial<ToolToggles> = {};
+let thinkingPreference: ThinkingPreference = { enabled: false, budgetTokens: 16000 };
+let openComposerMenu: HTMLElement | null = null;
 let openDropdownId: string | null = null;
 let pendingAttachments: UploadedAttachment[] = [];
-let uploadingAttachments = false;
+let uploadingAttachments: UploadingAttachment[] = [];
 let attachmentError = '';
 let currentConversationTitle = '';
 let currentConversationMessages: Array<{ role: string; content: string; timestamp?: string }> = [];
+let retryCountdownTimer: number | null = null;
+let outbox: OutboxState = { online: true, items: [] };
+let editingOutboxId: string | null = null;
 
-const modelDisplayNames: Record<string, string> = {
-  'claude-opus-4-5-20251101': 'Opus 4.5',
-  'claude-sonnet-4-5-20250929': 'Sonnet 4.5',
-  'claude-haiku-4-5-20251001': 'Haiku 4.5'
-};
+const CONVERSATION_PAGE_SIZE = 30;
+
+const composerTools: Array<{ name: ToolName; label: string; description: string }> = [
+  { name: 'web_search', label: 'Web search', description: 'Search the web for current information' },
+  { name: 'artifacts', label: 'Artifacts', description: 'Create documents and code in a side panel' },
+  { name: 'repl', label: 'Analysis tool', description: 'Run code to analyze data' }
+];
+
+const thinkingBudgets: Array<{ label: string; tokens: number }> = [
+  { label: 'Low', tokens: 4000 },
+  { label: 'Medium', tokens: 16000 },
+  { label: 'High', tokens: 32000 }
+];
 
 const streamingBlocks = {
   thinkingBlocks: new Map<number, StreamingBlock>(),
@@ -248,6 +315,20 @@ function renderAttachmentList() {
     { list: $('home-attachment-list'), status: $('home-attachment-status') }
   ];
 
+  const uploadingPills = uploadingAttachments.map(u => {
+    const icon = u.file_type.startsWith('image/') ? imageIconSvg : fileIconSvg;
+    return `
+      <div class="attachment-pill uploading" data-id="${u.id}">
+        <div class="attachment-icon">${icon}</div>
+        <div class="attachment-meta">
+          <div class="attachment-name">${escapeHtml(u.file_name)}</div>
+          <div class="attachment-progress"><div class="attachment-progress-bar" data-upload-id="${u.id}" style="width: ${uploadPercent(u)}%"></div></div>
+        </div>
+        <button class="attachment-remove" data-cancel-id="${u.id}" title="Cancel upload">✕</button>
+      </div>
+    `;
+  }).join('');
+
   const pills = pendingAttachments.map(a => {
     const icon = a.file_type?.startsWith('image/') ? imageIconSvg : fileIconSvg;
     return `
@@ -264,30 +345,55 @@ function renderAttachmentList() {
 
   containers.forEach(({ list, status }) => {
     if (!list) return;
-    const hasContent = pendingAttachments.length > 0 || uploadingAttachments || !!attachmentError;
+    const hasContent = pendingAttachments.length > 0 || uploadingAttachments.length > 0 || !!attachmentError;
     list.parentElement?.classList.toggle('visible', hasContent);
-    list.innerHTML = pills;
+    list.innerHTML = pills + uploadingPills;
 
     list.querySelectorAll('.attachment-remove').forEach(btn => {
       btn.addEventListener('click', (e) => {
         e.stopPropagation();
-        const id = (btn as HTMLElement).dataset.id;
-        if (id) removeAttachment(id);
+        const { id, cancelId } = (btn as HTMLElement).dataset;
+        if (cancelId) cancelUpload(cancelId);
+        else if (id) removeAttachment(id);
       });
     });
 
     if (status) {
-      status.textContent = uploadingAttachments ? 'Uploading attachments…' : attachmentError;
-      status.style.display = (uploadingAttachments || attachmentError) ? 'block' : 'none';
+      status.textContent = attachmentError;
+      status.style.display = attachmentError ? 'block' : 'none';
       status.classList.toggle('error', !!attachmentError);
     }
   });
 }
 
+function uploadPercent(upload: UploadingAttachment): number {
+  return upload.total > 0 ? Math.round((upload.loaded / upload.total) * 100) : 0;
+}
+
+// Move the progress bars without re-rendering the pills
+function updateUploadProgress(progress: UploadProgress) {
+  const upload = uploadingAttachments.find(u => u.id === progress.uploadId);
+  if (!upload) return;
+  upload.loaded = progress.loaded;
+  upload.total = progress.total;
+  $$(`.attachment-progress-bar[data-upload-id="${upload.id}"]`).forEach(bar => {
+    (bar as HTMLElement).style.width = `${uploadPercent(upload)}%`;
+  });
+}
+
+function cancelUpload(uploadId: string) {
+  uploadingAttachments = uploadingAttachments.filter(u => u.id !== uploadId);
+  renderAttachmentList();
+  window.claude.cancelUpload(uploadId).catch(err => {
+    console.warn('Failed to cancel upload:', err);
+  });
+}
+
 function clearAttachments() {
+  uploadingAttachments.forEach(u => cancelUpload(u.id));
   pendingAttachments = [];
   attachmentError = '';
-  uploadingAttachments = false;
+  uploadingAttachments = [];
   renderAttachmentList();
 }
 
@@ -302,37 +408,110 @@ function getAttachmentPayloads(): AttachmentPayload[] {
   }));
 }
 
-async function handleFileSelection(fileList: FileList | null) {
+// Resize images and strip their metadata before upload. Settings are read
+// fresh so changes in the settings window apply to the next upload.
+async function preprocessFiles(files: File[]): Promise<File[]> {
+  if (!files.some(isProcessableImage)) return files;
+
+  let settings: ImageProcessingSettings | undefined;
+  try {
+    settings = (await window.claude.getSettings()).imageProcessing;
+  } catch (e) {
+    console.warn('Failed to load image settings:', e);
+  }
+  if (!settings) return files;
+
+  const imageSettings = settings;
+  return Promise.all(files.map(file => preprocessImage(file, imageSettings)));
+}
+
+// Files still on disk are streamed from there by the main process; ones made
+// in memory (resized images) are sent as bytes
+async function uploadSource(file: File): Promise<{ path: string } | { data: ArrayBuffer }> {
+  const path = window.claude.getPathForFile(file);
+  return path ? { path } : { data: await file.arrayBuffer() };
+}
+
+// Read text files locally to send inline; returns the files that still
+// need uploading (binaries, and text that's too large or isn't really text)
+async function attachTextFiles(files: File[]): Promise<File[]> {
+  const remaining: File[] = [];
+  const failures: string[] = [];
+
+  for (const file of files) {
+    if (!isTextFile(file)) {
+      remaining.push(file);
+      continue;
+    }
+    try {
+      const attachment = await readTextAttachment(file);
+      if (attachment) {
+        pendingAttachments = [...pendingAttachments, { id: crypto.randomUUID(), document_id: '', ...attachment }];
+      } else {
+        remaining.push(file);
+      }
+    } catch (e: any) {
+      failures.push(`${file.name}: ${e?.message || 'could not be read'}`);
+    }
+  }
+
+  if (failures.length > 0) attachmentError = failures.join('; ');
+  renderAttachmentList();
+  return remaining;
+}
+
+async function handleFileSelection(fileList: FileList | File[] | null) {
   if (!fileList || fileList.length === 0) return;
 
   attachmentError = '';
-  uploadingAttachments = true;
+  const files = await attachTextFiles(Array.from(fileList));
+  if (files.length === 0) return;
+
+  const uploads: UploadingAttachment[] = files.map(file => ({
+    id: crypto.randomUUID(),
+    file_name: file.name,
+    file_size: file.size,
+    file_type: file.type || 'application/octet-stream',
+    loaded: 0,
+    total: file.size
+  }));
+
+  uploadingAttachments = [...uploadingAttachments, ...uploads];
   renderAttachmentList();
 
   try {
-    const uploadPayload = await Promise.all(Array.from(fileList).map(async (file) => ({
+    const prepared = await preprocessFiles(files);
+    prepared.forEach((file, i) => {
+      uploads[i].file_size = file.size;
+      uploads[i].total = file.size;
+    });
+
+    const uploadPayload: UploadRequest[] = await Promise.all(prepared.map(async (file, i) => ({
+      uploadId: uploads[i].id,
       name: file.name,
       size: file.size,
-      type: file.type || 'application/octet-stream',
-      data: await file.arrayBuffer()
+      type: uploads[i].file_type,
+      ...await uploadSource(file)
     })));
 
     const results = await window.claude.uploadAttachments(uploadPayload);
-    const normalized = results.map(res => ({
-      id: crypto.randomUUID(),
-      document_id: res.document_id,
-      file_name: res.file_name,
-      file_size: res.file_size,
-      file_type: res.file_type,
-      file_url: res.file_url,
-      extracted_content: res.extracted_content
-    }));
-
-    pendingAttachments = [...pendingAttachments, ...normalized];
+    const failures: string[] = [];
+    for (const result of results) {
+      // Cancelled (or cleared) while in flight
+      const upload = uploadingAttachments.find(u => u.id === result.uploadId);
+      if (!upload) continue;
+      if (result.attachment) {
+        pendingAttachments = [...pendingAttachments, { id: result.uploadId, ...result.attachment }];
+      } else if (result.error && result.error.kind !== 'aborted') {
+        failures.push(`${upload.file_name}: ${result.error.message}`);
+      }
+    }
+    if (failures.length > 0) attachmentError = [attachmentError, ...failures].filter(Boolean).join('; ');
   } catch (e: any) {
     attachmentError = e?.message || 'Failed to upload attachments';
   } finally {
-    uploadingAttachments = false;
+    const ids = new Set(uploads.map(u => u.id));
+    uploadingAttachments = uploadingAttachments.filter(u => !ids.has(u.id));
     renderAttachmentList();
   }
 }
@@ -347,6 +526,28 @@ function autoResizeHome(el: HTMLTextAreaElement) {
   el.style.height = Math.min(el.scrollHeight, 200) + 'px';
 }
 
+// Language and time zone from settings (undefined follows the system)
+let displayLocale: string | undefined;
+let displayTimeZone: string | undefined;
+
+async function loadRegionSettings() {
+  try {
+    const settings = await window.claude.getSettings();
+    const locale = settings.locale || undefined;
+    const timeZone = settings.timezone || undefined;
+    if (locale === displayLocale && timeZone === displayTimeZone) return;
+    displayLocale = locale;
+    displayTimeZone = timeZone;
+  } catch (e) {
+    console.warn('Failed to load language settings:', e);
+    return;
+  }
+  // Each renderer only draws when its view is showing
+  renderConversationsList();
+  renderProjectsList();
+  renderProjectDetail();
+}
+
 function formatDate(dateStr: string): string {
   const date = new Date(dateStr);
   const now = new Date();
@@ -355,7 +556,62 @@ function formatDate(dateStr: string): string {
   if (days === 0) return 'Today';
   if (days === 1) return 'Yesterday';
   if (days < 7) return `${days} days ago`;
-  return date.toLocaleDateString();
+  return date.toLocaleDateString(displayLocale, { timeZone: displayTimeZone });
+}
+
+// Strip Electron's "Error invoking remote method" wrapper from IPC errors
+function ipcErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '');
+}
+
+// Human-readable text for a failed request
+function describeApiError(error: ApiErrorInfo): string {
+  const attempts = error.attempts > 1 ? ` (gave up after ${error.attempts} attempts)` : '';
+  switch (error.kind) {
+    case 'rate_limited': {
+      if (error.usageLimit) return describeUsageLimit(error.usageLimit) || 'You\'ve reached your message limit.';
+      const wait = error.retryAfterMs ? ` Try again in ${Math.ceil(error.retryAfterMs / 1000)}s.` : '';
+      return `Rate limited by the server.${wait}${attempts}`;
+    }
+    case 'server':
+      return error.status === 529
+        ? `Claude is overloaded right now${attempts}`
+        : `The server had a problem (${error.status})${attempts}`;
+    case 'network':
+      return `Network error: ${error.message}${attempts}`;
+    default:
+      return error.message;
+  }
+}
+
+function clearRetryCountdown() {
+  if (retryCountdownTimer !== null) {
+    clearInterval(retryCountdownTimer);
+    retryCountdownTimer = null;
+  }
+}
+
+// Show "retrying in 8s…" in the pending assistant message
+function showRetryNotice(d: RetryData) {
+  if (!currentStreamingElement) return;
+  const content = currentStreamingElement.querySelector('.message-content');
+  if (!content) return;
+
+  clearRetryCountdown();
+  const reason = d.error.kind === 'rate_limited' ? 'Rate limited' : d.error.kind === 'network' ? 'Connection problem' : 'Server busy';
+  const retryAt = Date.now() + d.delayMs;
+
+  const render = () => {
+    const seconds = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+    content.innerHTML = seconds > 0
+      ? `<div class="retry-notice">${reason} — retrying in ${seconds}s… (attempt ${d.attempt} of ${d.maxAttempts})</div>`
+      : '<div class="loading-dots"><span></span><span></span><span></span></div>';
+    if (seconds === 0) clearRetryCountdown();
+  };
+
+  render();
+  retryCountdownTimer = window.setInterval(render, 1000);
 }
 
 function scrollToBottom() {
@@ -400,13 +656,12 @@ function showChat() {
   const home = $('home');
   const chat = $('chat');
   const sidebarTab = $('sidebar-tab');
-  const modelBadge = document.querySelector('.model-badge');
 
   if (login) login.style.display = 'none';
   if (home) home.classList.remove('active');
   if (chat) chat.classList.add('active');
   if (sidebarTab) sidebarTab.classList.remove('hidden');
-  if (modelBadge) modelBadge.textContent = modelDisplayNames[selectedModel] || 'Opus 4.5';
+  updateModelBadge();
 }
 
 // Sidebar functions
@@ -423,7 +678,7 @@ function toggleSidebar() {
 
   if (isOpening) {
     sidebarTab.classList.add('hidden');
-    loadConversationsList();
+    refreshSidebar();
   } else {
     sidebarTab.classList.remove('hidden');
   }
@@ -439,27 +694,416 @@ function closeSidebar() {
   if (sidebarTab) sidebarTab.classList.remove('hidden');
 }
 
-// Model selection
+// Model catalog (home picker, chat badge)
+function findModel(id: string | null | undefined): ModelInfo | undefined {
+  return modelCatalog?.models.find(m => m.id === id);
+}
+
+// Model the composer sends with: the open conversation's, else the picked one
+function currentModel(): string {
+  return conversationModel || selectedModel;
+}
+
+function supportsThinking(): boolean {
+  return findModel(currentModel())?.thinking ?? true;
+}
+
+function updateModelBadge() {
+  const badge = document.querySelector('.model-badge');
+  if (!badge) return;
+  const id = currentModel();
+  badge.textContent = findModel(id)?.name || id;
+}
+
+function renderModelPicker() {
+  const selector = document.querySelector('.model-selector');
+  if (!selector || !modelCatalog) return;
+  selector.innerHTML = modelCatalog.models.map(m => `
+    <button class="model-option ${m.id === selectedModel ? 'active' : ''}" data-model="${escapeHtml(m.id)}" title="${escapeHtml(m.description || m.name)}">${escapeHtml(m.name)}</button>
+  `).join('');
+}
+
+async function loadModels() {
+  try {
+    modelCatalog = await window.claude.getModels();
+  } catch (e) {
+    console.warn('Failed to load models:', e);
+    return;
+  }
+  if (!findModel(selectedModel)) selectedModel = modelCatalog.defaultModel;
+  renderModelPicker();
+  renderThinkingPickers();
+  updateModelBadge();
+}
+
 function selectModel(btn: HTMLElement) {
-  $$('.model-option').forEach(b => b.classList.remove('active'));
-  btn.classList.add('active');
   selectedModel = btn.getAttribute('data-model') || selectedModel;
+  renderModelPicker();
+  renderThinkingPickers();
+}
+
+// Composer menus (style, tool and thinking pickers); one open at a time
+function toggleComposerMenu(picker: HTMLElement) {
+  const menu = picker.querySelector('.composer-picker-menu') as HTMLElement | null;
+  if (!menu) return;
+
+  const opening = !menu.classList.contains('open');
+  closeComposerMenu();
+  if (opening) {
+    menu.classList.add('open');
+    openComposerMenu = menu;
+  }
+}
+
+function closeComposerMenu() {
+  openComposerMenu?.classList.remove('open');
+  openComposerMenu = null;
+}
+
+// Options sent with every message from the composer
+function composerOptions(): SendMessageOptions {
+  const thinking = supportsThinking() ? thinkingPreference : { ...thinkingPreference, enabled: false };
+  return { styleKey: selectedStyleKey, tools: toolOverrides, thinking };
+}
+
+// Persist composer choices when a conversation is open
+function saveComposerPreferences(preferences: Partial<ConversationPreferences>) {
+  if (!conversationId) return;
+  window.claude.setConversationPreferences(conversationId, preferences).catch(err => {
+    console.warn('Failed to save conversation preferences:', err);
+  });
+}
+
+async function loadStyles(refresh = false) {
+  try {
+    availableStyles = await window.claude.getStyles(refresh);
+  } catch (e) {
+    console.warn('Failed to load styles:', e);
+  }
+  renderStylePickers();
+}
+
+function currentStyle(): ResponseStyle | undefined {
+  return availableStyles.find(s => s.key === selectedStyleKey) || availableStyles.find(s => s.isDefault);
+}
+
+function renderStylePickers() {
+  const style = currentStyle();
+  const label = style?.name || 'Normal';
+
+  ['home-style-picker', 'style-picker'].forEach(id => {
+    const picker = $(id);
+    if (!picker) return;
+
+    const wasOpen = picker.querySelector('.composer-picker-menu')?.classList.contains('open');
+    picker.innerHTML = `
+      <button class="composer-picker-btn" data-role="toggle" title="Response style">${escapeHtml(label)}</button>
+      <div class="composer-picker-menu ${wasOpen ? 'open' : ''}">
+        ${availableStyles.map(s => `
+          <button class="composer-picker-option ${s.key === style?.key ? 'active' : ''}" data-style="${escapeHtml(s.key)}">
+            <span class="composer-picker-option-name">${escapeHtml(s.name)}${s.type === 'custom' ? ' <span class="composer-picker-tag">Custom</span>' : ''}</span>
+            ${s.summary ? `<span class="composer-picker-option-summary">${escapeHtml(s.summary)}</span>` : ''}
+          </button>
+        `).join('')}
+      </div>
+    `;
+    if (wasOpen) openComposerMenu = picker.querySelector('.composer-picker-menu');
+
+    picker.querySelector('[data-role="toggle"]')?.addEventListener('click', (e) => {
+      e.stopPropagation();
+      const opening = !picker.querySelector('.composer-picker-menu')?.classList.contains('open');
+      toggleComposerMenu(picker);
+      // Pick up custom styles added in settings since the last render
+      if (opening) loadStyles();
+    });
+    picker.querySelectorAll('[data-style]').forEach(option => {
+      option.addEventListener('click', (e) => {
+        e.stopPropagation();
+        selectStyle((option as HTMLElement).dataset.style);
+        closeComposerMenu();
+      });
+    });
+  });
+}
+
+function selectStyle(key: string | undefined) {
+  selectedStyleKey = key;
+  renderStylePickers();
+  saveComposerPreferences({ styleKey: key });
+}
+
+async function loadDefaultTools() {
+  try {
+    const settings = await window.claude.getSettings();
+    if (settings.defaultTools) defaultTools = { ...defaultTools, ...settings.defaultTools };
+  } catch (e) {
+    console.warn('Failed to load tool defaults:', e);
+  }
+  renderToolPickers();
+}
+
+function effectiveTools(): ToolToggles {
+  return { ...defaultTools, ...toolOverrides };
+}
+
+function renderToolPickers() {
+  const tools = effectiveTools();
+  const enabled = composerTools.filter(t => tools[t.name]).length;
+  const hasOverrides = Object.keys(toolOverrides).length > 0;
+
+  ['home-tools-picker', 'tools-picker'].forEach(id => {
+    const picker = $(id);
+    if (!picker) return;
+
+    const wasOpen = picker.querySelector('.composer-picker-menu')?.classList.contains('open');
+    picker.innerHTML = `
+      <button class="composer-picker-btn ${hasOverrides ? 'modified' : ''}" data-role="toggle" title="Tools for this conversation">Tools ${enabled}/${composerTools.length}</button>
+      <div class="composer-picker-menu ${wasOpen ? 'open' : ''}">
+        ${composerTools.map(t => `
+          <button class="composer-picker-option composer-toggle-option" data-tool="${t.name}">
+            <span class="composer-toggle-check ${tools[t.name] ? 'on' : ''}"></span>
+            <span class="composer-toggle-text">
+              <span class="composer-picker-option-name">${t.label}${t.name in toolOverrides ? ' <span class="composer-picker-tag">This chat</span>' : ''}</span>
+              <span class="composer-picker-option-summary">${t.description}</span>
+            </span>
+          </button>
+        `).join('')}
+        ${hasOverrides ? '<button class="composer-picker-reset" data-role="reset">Reset to defaults</button>' : ''}
+      </div>
+    `;
+    if (wasOpen) openComposerMenu = picker.querySelector('.composer-picker-menu');
+
+    picker.querySelector('[data-role="toggle"]')?.addEventListener('click', (e) => {
+      e.stopPropagation();
+      const opening = !picker.querySelector('.composer-picker-menu')?.classList.contains('open');
+      toggleComposerMenu(picker);
+      // Defaults may have changed in settings
+      if (opening) loadDefaultTools();
+    });
+    picker.querySelectorAll('[data-tool]').forEach(option => {
+      option.addEventListener('click', (e) => {
+        e.stopPropagation();
+        toggleTool((option as HTMLElement).dataset.tool as ToolName);
+      });
+    });
+    picker.querySelector('[data-role="reset"]')?.addEventListener('click', (e) => {
+      e.stopPropagation();
+      toolOverrides = {};
+      renderToolPickers();
+      saveComposerPreferences({ tools: toolOverrides });
+    });
+  });
 }
 
-// Conversations list
+// Flip a tool for this conversation; matching the default drops the override
+function toggleTool(name: ToolName) {
+  const next = !effectiveTools()[name];
+  const { [name]: _previous, ...rest } = toolOverrides;
+  toolOverrides = next === defaultTools[name] ? rest : { ...rest, [name]: next };
+  renderToolPickers();
+  saveComposerPreferences({ tools: toolOverrides });
+}
+
+function budgetLabel(tokens: number): string {
+  return thinkingBudgets.find(b => b.tokens === tokens)?.label || `${Math.round(tokens / 1000)}k`;
+}
+
+function renderThinkingPickers() {
+  const { enabled, budgetTokens } = thinkingPreference;
+  const label = enabled ? `Thinking · ${budgetLabel(budgetTokens)}` : 'Thinking off';
+
+  ['home-thinking-picker', 'thinking-picker'].forEach(id => {
+    const picker = $(id);
+    if (!picker) return;
+
+    // Models without extended thinking get no picker
+    picker.hidden = !supportsThinking();
+
+    const wasOpen = picker.querySelector('.composer-picker-menu')?.classList.contains('open');
+    picker.innerHTML = `
+      <button class="composer-picker-btn ${enabled ? 'modified' : ''}" data-role="toggle" title="Extended thinking">${label}</button>
+      <div class="composer-picker-menu ${wasOpen ? 'open' : ''}">
+        <button class="composer-picker-option composer-toggle-option" data-role="enable">
+          <span class="composer-toggle-check ${enabled ? 'on' : ''}"></span>
+          <span class="composer-toggle-text">
+            <span class="composer-picker-option-name">Extended thinking</span>
+            <span class="composer-picker-option-summary">Think before answering complex questions</span>
+          </span>
+        </button>
+        <div class="composer-picker-divider"></div>
+        ${thinkingBudgets.map(b => `
+          <button class="composer-picker-option ${enabled && b.tokens === budgetTokens ? 'active' : ''}" data-budget="${b.tokens}">
+            <span class="composer-picker-option-name">${b.label}</span>
+            <span class="composer-picker-option-summary">Up to ${b.tokens.toLocaleString()} thinking tokens</span>
+          </button>
+        `).join('')}
+      </div>
+    `;
+    if (wasOpen) openComposerMenu = picker.querySelector('.composer-picker-menu');
+
+    picker.querySelector('[data-role="toggle"]')?.addEventListener('click', (e) => {
+      e.stopPropagation();
+      toggleComposerMenu(picker);
+    });
+    picker.querySelector('[data-role="enable"]')?.addEventListener('click', (e) => {
+      e.stopPropagation();
+      setThinking({ ...thinkingPreference, enabled: !thinkingPreference.enabled });
+    });
+    picker.querySelectorAll('[data-budget]').forEach(option => {
+      option.addEventListener('click', (e) => {
+        e.stopPropagation();
+        // Picking a budget implies thinking on
+        setThinking({ enabled: true, budgetTokens: Number((option as HTMLElement).dataset.budget) });
+        closeComposerMenu();
+      });
+    });
+  });
+}
+
+function setThinking(preference: ThinkingPreference) {
+  thinkingPreference = preference;
+  renderThinkingPickers();
+  saveComposerPreferences({ thinking: thinkingPreference });
+}
+
+// Restore the composer choices remembered for a conversation
+async function loadConversationPreferences(convId: string) {
+  try {
+    const preferences = await window.claude.getConversationPreferences(convId);
+    if (convId !== conversationId) return;
+    selectedStyleKey = preferences.styleKey;
+    toolOverrides = preferences.tools || {};
+    thinkingPreference = preferences.thinking || { enabled: false, budgetTokens: thinkingPreference.budgetTokens };
+  } catch (e) {
+    console.warn('Failed to load conversation preferences:', e);
+    selectedStyleKey = undefined;
+    toolOverrides = {};
+    thinkingPreference = { ...thinkingPreference, enabled: false };
+  }
+  renderStylePickers();
+  renderToolPickers();
+  renderThinkingPickers();
+}
+
+// Conversations list. Refreshing keeps as many entries as are already loaded
+// so the sidebar doesn't collapse back to the first page.
 async function loadConversationsList() {
   const content = $('sidebar-content');
   if (!content) return;
 
+  const version = ++conversationsVersion;
   try {
-    conversations = await window.claude.getConversations();
+    const page = await window.claude.getConversations({
+      limit: Math.max(CONVERSATION_PAGE_SIZE, conversations.length),
+      offset: 0
+    });
+    // A later refresh is on its way
+    if (version !== conversationsVersion) return;
+    conversations = page.conversations;
+    conversationsNextOffset = page.nextOffset;
+    conversationsHasMore = page.hasMore;
+    conversationsLoadError = null;
     renderConversationsList();
+    fillConversationsViewport();
   } catch (e) {
-    content.innerHTML = '<div class="conv-loading">Failed to load</div>';
+    if (version !== conversationsVersion) return;
+    console.error('Failed to load conversations:', e);
+    if (sidebarView === 'chats') {
+      content.innerHTML = `<div class="conv-loading">Failed to load: ${escapeHtml(ipcErrorMessage(e))}</div>`;
+    }
   }
 }
 
-function renderConversationItem(c: Conversation): string {
+// Append the next page, skipping entries we already have. Resolves false
+// when there was nothing to load or the page failed.
+function loadMoreConversations(): Promise<boolean> {
+  if (loadingMoreConversations) return loadingMoreConversations;
+  if (!conversationsHasMore) return Promise.resolve(false);
+
+  loadingMoreConversations = fetchMoreConversations().finally(() => {
+    loadingMoreConversations = null;
+    renderConversationsList();
+  });
+  renderConversationsFooter();
+  return loadingMoreConversations;
+}
+
+async function fetchMoreConversations(): Promise<boolean> {
+  const version = conversationsVersion;
+  try {
+    const page = await window.claude.getConversations({ limit: CONVERSATION_PAGE_SIZE, offset: conversationsNextOffset });
+    // The list was refreshed meanwhile and this page's offset no longer
+    // lines up; carry on from the refreshed list
+    if (version !== conversationsVersion) return true;
+    const known = new Set(conversations.map(c => c.uuid));
+    conversations = [...conversations, ...page.conversations.filter(c => !known.has(c.uuid))];
+    conversationsNextOffset = page.nextOffset;
+    conversationsHasMore = page.hasMore;
+    conversationsLoadError = null;
+    return true;
+  } catch (e) {
+    console.error('Failed to load more conversations:', e);
+    if (version === conversationsVersion) conversationsLoadError = ipcErrorMessage(e);
+    return false;
+  }
+}
+
+// Keep paging until the whole history is loaded
+async function loadAllConversations() {
+  if (loadingAllConversations) return;
+  loadingAllConversations = true;
+  try {
+    while (conversationsHasMore && await loadMoreConversations()) {
+      // renderConversationsList runs after each page
+    }
+  } finally {
+    loadingAllConversations = false;
+    renderConversationsFooter();
+  }
+}
+
+// Load further pages while the list doesn't fill the sidebar (nothing to scroll yet)
+async function fillConversationsViewport() {
+  const content = $('sidebar-content');
+  while (content && sidebarView === 'chats' && conversationsHasMore && !conversationsLoadError && content.scrollHeight <= content.clientHeight) {
+    if (!await loadMoreConversations()) break;
+  }
+}
+
+function handleSidebarScroll() {
+  const content = $('sidebar-content');
+  // After a failure, wait for the footer's retry instead of hammering the server
+  if (!content || sidebarView !== 'chats' || conversationsLoadError) return;
+  if (content.scrollTop + content.clientHeight >= content.scrollHeight - 200) {
+    loadMoreConversations();
+  }
+}
+
+function renderConversationsFooter() {
+  const footer = $('conv-list-footer');
+  if (!footer) return;
+
+  if (loadingMoreConversations || loadingAllConversations) {
+    footer.innerHTML = `<span>Loading${loadingAllConversations ? ` all… (${conversations.length} so far)` : '…'}</span>`;
+  } else if (conversationsLoadError) {
+    footer.innerHTML = `<span title="${escapeHtml(conversationsLoadError)}">Couldn't load more</span><button class="conv-load-all-btn" id="conv-retry-btn">Retry</button>`;
+    $('conv-retry-btn')?.addEventListener('click', (e) => {
+      e.stopPropagation();
+      conversationsLoadError = null;
+      loadMoreConversations();
+    });
+  } else if (conversationsHasMore) {
+    footer.innerHTML = `<span>${conversations.length} loaded</span><button class="conv-load-all-btn" id="conv-load-all-btn">Load all</button>`;
+    $('conv-load-all-btn')?.addEventListener('click', (e) => {
+      e.stopPropagation();
+      loadAllConversations();
+    });
+  } else {
+    footer.innerHTML = '';
+  }
+}
+
+function renderConversationItem(c: ConversationSummary): string {
   return `
     <div class="conv-item ${c.uuid === conversationId ? 'active' : ''}" data-uuid="${c.uuid}" data-starred="${c.is_starred || false}">
       <div class="conv-item-row">
@@ -487,37 +1131,295 @@ function renderConversationItem(c: Conversation): string {
   `;
 }
 
-function renderConversationsList() {
-  const content = $('sidebar-content');
-  if (!content) return;
+function renderConversationsList() {
+  const content = $('sidebar-content');
+  if (!content || sidebarView !== 'chats') return;
+
+  if (!conversations || conversations.length === 0) {
+    content.innerHTML = '<div class="conv-loading">No conversations yet</div>';
+    return;
+  }
+
+  const starred = conversations.filter(c => c.is_starred);
+  const unstarred = conversations.filter(c => !c.is_starred);
+
+  let html = '';
+
+  if (starred.length > 0) {
+    html += '<div class="conv-section-header">Favorites</div>';
+    html += starred.map(renderConversationItem).join('');
+  }
+
+  if (unstarred.length > 0) {
+    if (starred.length > 0) {
+      html += '<div class="conv-section-header">Recent</div>';
+    }
+    html += unstarred.map(renderConversationItem).join('');
+  }
+
+  html += '<div class="conv-list-footer" id="conv-list-footer"></div>';
+
+  content.innerHTML = html;
+  renderConversationsFooter();
+
+  // Add event listeners
+  content.querySelectorAll('[data-action]').forEach(el => {
+    el.addEventListener('click', handleConversationAction);
+  });
+}
+
+// Sidebar views: chats or projects
+function setSidebarView(view: 'chats' | 'projects') {
+  sidebarView = view;
+  $$('.sidebar-view-btn').forEach(btn => {
+    btn.classList.toggle('active', (btn as HTMLElement).dataset.view === view);
+  });
+
+  const content = $('sidebar-content');
+  if (content) {
+    content.scrollTop = 0;
+    content.innerHTML = '<div class="conv-loading">Loading...</div>';
+  }
+  refreshSidebar();
+}
+
+function refreshSidebar() {
+  if (sidebarView === 'chats') {
+    loadConversationsList();
+  } else if (openProject) {
+    openProjectView(openProject.uuid);
+  } else {
+    loadProjectsList();
+  }
+}
+
+// Projects
+async function loadProjectsList() {
+  const content = $('sidebar-content');
+  if (!content) return;
+
+  try {
+    projects = await window.claude.getProjects();
+    renderProjectsList();
+  } catch (e) {
+    console.error('Failed to load projects:', e);
+    if (sidebarView === 'projects' && !openProject) {
+      content.innerHTML = `<div class="conv-loading">Failed to load: ${escapeHtml(ipcErrorMessage(e))}</div>`;
+    }
+  }
+}
+
+function renderProjectsList() {
+  const content = $('sidebar-content');
+  if (!content || sidebarView !== 'projects' || openProject) return;
+
+  if (projects.length === 0) {
+    content.innerHTML = '<div class="conv-loading">No projects yet</div>';
+    return;
+  }
+
+  content.innerHTML = projects.map(p => `
+    <div class="conv-item ${p.uuid === activeProject?.uuid ? 'active' : ''}" data-action="open-project" data-uuid="${p.uuid}">
+      <div class="conv-item-title">${escapeHtml(p.name || 'Untitled project')}</div>
+      <div class="conv-item-date">${p.description ? escapeHtml(p.description) : p.updated_at ? formatDate(p.updated_at) : ''}</div>
+    </div>
+  `).join('');
+
+  content.querySelectorAll('[data-action]').forEach(el => {
+    el.addEventListener('click', handleProjectAction);
+  });
+}
+
+async function openProjectView(uuid: string) {
+  const content = $('sidebar-content');
+  if (!content) return;
+
+  if (openProject?.uuid !== uuid) {
+    content.innerHTML = '<div class="conv-loading">Loading...</div>';
+  }
+
+  try {
+    const project = await window.claude.loadProject(uuid);
+    if (sidebarView !== 'projects') return;
+    openProject = project;
+    renderProjectDetail();
+  } catch (e) {
+    console.error('Failed to load project:', e);
+    content.innerHTML = `<div class="conv-loading">Failed to load project: ${escapeHtml(ipcErrorMessage(e))}</div>`;
+  }
+}
+
+function renderKnowledgeItem(kind: 'doc' | 'file', uuid: string, name: string): string {
+  return `
+    <div class="project-knowledge-item">
+      ${kind === 'doc' ? fileIconSvg : imageIconSvg}
+      <span class="project-knowledge-name">${escapeHtml(name)}</span>
+      <button class="project-knowledge-remove" data-action="remove-knowledge" data-kind="${kind}" data-uuid="${uuid}" title="Remove">✕</button>
+    </div>
+  `;
+}
+
+function renderProjectDetail() {
+  const content = $('sidebar-content');
+  if (!content || sidebarView !== 'projects' || !openProject) return;
+
+  const p = openProject;
+  const knowledgeCount = p.docs.length + p.files.length;
+
+  let html = `
+    <div class="project-header">
+      <button class="project-back-btn" data-action="back" title="All projects">‹</button>
+      <div class="project-name">${escapeHtml(p.name || 'Untitled project')}</div>
+    </div>
+  `;
+
+  if (p.description) {
+    html += `<div class="project-description">${escapeHtml(p.description)}</div>`;
+  }
+
+  html += `<button class="project-new-chat-btn" data-action="new-project-chat">+ New chat in project</button>`;
+
+  html += '<div class="conv-section-header">Instructions</div>';
+  html += p.prompt_template
+    ? `<div class="project-instructions">${escapeHtml(p.prompt_template)}</div>`
+    : '<div class="project-empty">No custom instructions</div>';
+
+  html += `
+    <div class="conv-section-header project-section-row">
+      <span>Knowledge${knowledgeCount ? ` (${knowledgeCount})` : ''}</span>
+      <button class="project-add-btn" data-action="add-knowledge" ${uploadingKnowledge ? 'disabled' : ''}>${uploadingKnowledge ? 'Uploading…' : '+ Add'}</button>
+    </div>
+  `;
+  if (knowledgeError) {
+    html += `<div class="project-error">${escapeHtml(knowledgeError)}</div>`;
+  }
+  if (knowledgeCount === 0) {
+    html += '<div class="project-empty">No knowledge yet</div>';
+  } else {
+    html += p.docs.map(d => renderKnowledgeItem('doc', d.uuid, d.file_name)).join('');
+    html += p.files.map(f => renderKnowledgeItem('file', f.file_uuid, f.file_name)).join('');
+  }
+
+  html += '<div class="conv-section-header">Chats</div>';
+  html += p.conversations.length === 0
+    ? '<div class="project-empty">No chats yet</div>'
+    : p.conversations.map(c => `
+      <div class="conv-item ${c.uuid === conversationId ? 'active' : ''}" data-action="load" data-uuid="${c.uuid}">
+        <div class="conv-item-title">${escapeHtml(c.name || c.summary || 'New conversation')}</div>
+        <div class="conv-item-date">${formatDate(c.updated_at)}</div>
+      </div>
+    `).join('');
+
+  content.innerHTML = html;
+
+  content.querySelectorAll('[data-action]').forEach(el => {
+    el.addEventListener('click', handleProjectAction);
+  });
+}
+
+function handleProjectAction(e: Event) {
+  e.stopPropagation();
+  const target = e.currentTarget as HTMLElement;
+  const uuid = target.dataset.uuid;
+
+  switch (target.dataset.action) {
+    case 'open-project':
+      if (uuid) openProjectView(uuid);
+      break;
+    case 'back':
+      openProject = null;
+      knowledgeError = '';
+      renderProjectsList();
+      loadProjectsList();
+      break;
+    case 'new-project-chat':
+      if (openProject) startProjectChat(openProject);
+      break;
+    case 'add-knowledge':
+      ($('knowledge-input') as HTMLInputElement | null)?.click();
+      break;
+    case 'remove-knowledge':
+      if (uuid) removeProjectKnowledge(target.dataset.kind === 'file' ? 'file' : 'doc', uuid);
+      break;
+    case 'load':
+      if (uuid) loadConversation(uuid);
+      break;
+  }
+}
+
+async function handleKnowledgeSelection(fileList: FileList | null) {
+  if (!fileList || fileList.length === 0 || !openProject || uploadingKnowledge) return;
+
+  const projectUuid = openProject.uuid;
+  knowledgeError = '';
+  uploadingKnowledge = true;
+  renderProjectDetail();
+
+  try {
+    const files = await preprocessFiles(Array.from(fileList));
+    const uploadPayload = await Promise.all(files.map(async (file) => ({
+      name: file.name,
+      size: file.size,
+      type: file.type || 'application/octet-stream',
+      ...await uploadSource(file)
+    })));
+
+    const project = await window.claude.uploadProjectKnowledge(projectUuid, uploadPayload);
+    if (openProject?.uuid === projectUuid) openProject = project;
+  } catch (e) {
+    knowledgeError = ipcErrorMessage(e) || 'Failed to upload knowledge';
+  } finally {
+    uploadingKnowledge = false;
+    renderProjectDetail();
+  }
+}
+
+async function removeProjectKnowledge(kind: 'doc' | 'file', uuid: string) {
+  if (!openProject) return;
 
-  if (!conversations || conversations.length === 0) {
-    content.innerHTML = '<div class="conv-loading">No conversations yet</div>';
-    return;
+  const project = openProject;
+  const previousDocs = project.docs;
+  const previousFiles = project.files;
+  if (kind === 'doc') {
+    project.docs = project.docs.filter(d => d.uuid !== uuid);
+  } else {
+    project.files = project.files.filter(f => f.file_uuid !== uuid);
   }
+  renderProjectDetail();
 
-  const starred = conversations.filter(c => c.is_starred);
-  const unstarred = conversations.filter(c => !c.is_starred);
+  try {
+    await window.claude.deleteProjectKnowledge(project.uuid, kind, uuid);
+  } catch (e) {
+    console.error('Failed to remove project knowledge:', e);
+    project.docs = previousDocs;
+    project.files = previousFiles;
+    knowledgeError = ipcErrorMessage(e);
+    renderProjectDetail();
+  }
+}
 
-  let html = '';
+// Scope the next chat started from home to a project
+function startProjectChat(project: Project) {
+  newChat();
+  activeProject = project;
+  renderProjectChip();
+}
 
-  if (starred.length > 0) {
-    html += '<div class="conv-section-header">Favorites</div>';
-    html += starred.map(renderConversationItem).join('');
-  }
+function renderProjectChip() {
+  const chip = $('home-project-chip');
+  if (!chip) return;
 
-  if (unstarred.length > 0) {
-    if (starred.length > 0) {
-      html += '<div class="conv-section-header">Recent</div>';
-    }
-    html += unstarred.map(renderConversationItem).join('');
+  if (!activeProject) {
+    chip.classList.remove('visible');
+    chip.innerHTML = '';
+    return;
   }
 
-  content.innerHTML = html;
-
-  // Add event listeners
-  content.querySelectorAll('[data-action]').forEach(el => {
-    el.addEventListener('click', handleConversationAction);
+  chip.innerHTML = `<span>In ${escapeHtml(activeProject.name || 'Untitled project')}</span><button class="project-chip-clear" id="project-chip-clear" title="Leave project">✕</button>`;
+  chip.classList.add('visible');
+  $('project-chip-clear')?.addEventListener('click', () => {
+    activeProject = null;
+    renderProjectChip();
   });
 }
 
@@ -588,7 +1490,7 @@ async function deleteConversation(uuid: string) {
 
 async function starConversation(uuid: string, isStarred: boolean) {
   const conv = conversations.find(c => c.uuid === uuid);
-  const previousState = conv?.is_starred;
+  const previousState = conv?.is_starred ?? false;
   if (conv) conv.is_starred = isStarred;
   renderConversationsList();
 
@@ -643,7 +1545,7 @@ async function finishRename(uuid: string, newName: string) {
   }
 
   const conv = conversations.find(c => c.uuid === uuid);
-  const previousName = conv?.name;
+  const previousName = conv?.name ?? '';
   if (conv) conv.name = trimmedName;
   renderConversationsList();
 
@@ -672,9 +1574,29 @@ const toolLabels: Record<string, string> = {
   'str_replace': 'Editing file',
   'view': 'Reading file',
   'conversation_search': 'Searching past chats',
-  'recent_chats': 'Getting recent chats'
+  'recent_chats': 'Getting recent chats',
+  'artifacts': 'Working on artifact'
 };
 
+// Attachment rows shown under a user message
+function renderMessageAttachments(attachments: AttachmentPayload[]): HTMLElement {
+  const attachmentsEl = document.createElement('div');
+  attachmentsEl.className = 'message-attachments';
+  attachmentsEl.innerHTML = attachments.map(a => {
+    const icon = a.file_type?.startsWith('image/') ? imageIconSvg : fileIconSvg;
+    return `
+      <div class="message-attachment-row">
+        <div class="message-attachment-icon">${icon}</div>
+        <div class="message-attachment-info">
+          <div class="message-attachment-name">${escapeHtml(a.file_name)}</div>
+          ${a.file_size ? `<div class="message-attachment-size">${formatFileSize(a.file_size)}</div>` : ''}
+        </div>
+      </div>
+    `;
+  }).join('');
+  return attachmentsEl;
+}
+
 // Message functions
 function addMessage(role: string, content: string, raw = false, storedParentUuid: string | null = null, extraClasses = '', attachments: UploadedAttachment[] = []): HTMLElement {
   const el = document.createElement('div');
@@ -686,21 +1608,7 @@ function addMessage(role: string, content: string, raw = false, storedParentUuid
   el.appendChild(c);
 
   if (role === 'user' && attachments.length > 0) {
-    const attachmentsEl = document.createElement('div');
-    attachmentsEl.className = 'message-attachments';
-    attachmentsEl.innerHTML = attachments.map(a => {
-      const icon = a.file_type?.startsWith('image/') ? imageIconSvg : fileIconSvg;
-      return `
-        <div class="message-attachment-row">
-          <div class="message-attachment-icon">${icon}</div>
-          <div class="message-attachment-info">
-            <div class="message-attachment-name">${escapeHtml(a.file_name)}</div>
-            ${a.file_size ? `<div class="message-attachment-size">${formatFileSize(a.file_size)}</div>` : ''}
-          </div>
-        </div>
-      `;
-    }).join('');
-    el.appendChild(attachmentsEl);
+    el.appendChild(renderMessageAttachments(attachments));
   }
 
   if (role === 'user') {
@@ -830,8 +1738,10 @@ async function submitEditMessage(msgEl: HTMLElement, newText: string) {
   currentStreamingElement = addMessage('assistant', '<div class="loading-dots"><span></span><span></span><span></span></div>', true);
 
   try {
-    await window.claude.sendMessage(conversationId!, trimmedText, parentMessageUuid!);
+    const result = await window.claude.sendMessage(conversationId!, trimmedText, parentMessageUuid!, [], composerOptions());
+    if (result?.error) throw new Error(describeApiError(result.error));
   } catch (e: any) {
+    clearRetryCountdown();
     if (currentStreamingElement) {
       const content = currentStreamingElement.querySelector('.message-content');
       if (content) content.innerHTML = '<span style="color:#FF453A">Error: ' + e.message + '</span>';
@@ -1000,11 +1910,23 @@ function buildToolResultContent(toolName: string, result: any, isError: boolean)
   return '';
 }
 
+// "Thought for 12s" from a thinking block's timestamps
+function formatThinkingDuration(step: Step): string {
+  if (!step.start_timestamp || !step.stop_timestamp) return '';
+  const ms = Date.parse(step.stop_timestamp) - Date.parse(step.start_timestamp);
+  if (Number.isNaN(ms) || ms < 0) return '';
+
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  const duration = seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `Thought for ${duration}${step.cut_off ? ' (cut off)' : ''}`;
+}
+
 // Step building
 function buildStepItem(step: Step, isActive: boolean): string {
   if (step.type === 'thinking') {
     const summary = step.thinkingSummary || step.summary;
     const label = summary ? escapeHtml(summary) : 'Thinking';
+    const duration = isActive ? '' : formatThinkingDuration(step);
     const idx = step.index !== undefined ? step.index : '';
     return `
       <div class="step-item thinking" data-index="${idx}">
@@ -1019,6 +1941,7 @@ function buildStepItem(step: Step, isActive: boolean): string {
         <div class="step-content-col">
           <div class="step-header">
             <span class="step-label">${label}</span>
+            ${duration ? `<span class="step-meta">${duration}</span>` : ''}
             ${isActive ? '<div class="step-spinner"></div>' : `<span class="step-chevron">${chevronSvg}</span>`}
           </div>
           <div class="step-content">
@@ -1029,7 +1952,15 @@ function buildStepItem(step: Step, isActive: boolean): string {
     `;
   } else if (step.type === 'tool') {
     const message = step.toolMessage || step.message;
-    const label = message || toolLabels[step.toolName || ''] || `Using ${step.toolName}`;
+    const isArtifact = step.toolName === 'artifacts';
+    const label = message
+      || (isArtifact ? artifactCommandLabel(step.toolInput) : null)
+      || toolLabels[step.toolName || '']
+      || `Using ${step.toolName}`;
+    const detail = describeToolInput(step.toolName || '', step.toolInput);
+    const openButton = isArtifact && step.toolUseId
+      ? `<button class="artifact-open-btn" data-tool-use-id="${escapeHtml(step.toolUseId)}">Open</button>`
+      : '';
     const resultHtml = buildToolResultContent(step.toolName || '', step.toolResult, step.isError || false);
     const idx = step.index !== undefined ? step.index : '';
 
@@ -1046,6 +1977,8 @@ function buildStepItem(step: Step, isActive: boolean): string {
         <div class="step-content-col">
           <div class="step-header">
             <span class="step-label">${escapeHtml(label)}</span>
+            ${detail ? `<span class="step-detail">${escapeHtml(detail)}</span>` : ''}
+            ${openButton}
             ${isActive && !step.toolResult ? '<div class="step-spinner"></div>' : `<span class="step-chevron">${chevronSvg}</span>`}
           </div>
           <div class="step-content">${resultHtml}</div>
@@ -1106,8 +2039,10 @@ function buildStreamingContent(): string {
     allBlocks.push({
       type: 'tool',
       index: idx,
+      toolUseId: block.id,
       toolName: block.name,
       toolMessage: block.message,
+      toolInput: block.input,
       toolResult: block.result,
       isError: block.isError,
       isActive: block.isRunning
@@ -1187,9 +2122,8 @@ function updateStreamingContent() {
 }
 
 // Parse stored message content
-function parseStoredMessageContent(content: ContentBlock[]): Step[] {
+function parseStoredMessageContent(content: MessageContentBlock[]): Step[] {
   const steps: Step[] = [];
-  let currentToolUse: Step | null = null;
 
   for (const block of content) {
     if (block.type === 'thinking') {
@@ -1199,17 +2133,28 @@ function parseStoredMessageContent(content: ContentBlock[]): Step[] {
       steps.push({
         type: 'thinking',
         thinkingText: block.thinking,
-        thinkingSummary: lastSummary
+        thinkingSummary: lastSummary,
+        start_timestamp: block.start_timestamp,
+        stop_timestamp: block.stop_timestamp,
+        cut_off: block.cut_off
       });
     } else if (block.type === 'tool_use') {
-      currentToolUse = {
+      const step: Step = {
         type: 'tool',
+        toolUseId: block.id,
         toolName: block.name,
         toolMessage: block.message || block.display_content?.text,
         toolInput: block.input
       };
+      steps.push(step);
     } else if (block.type === 'tool_result') {
-      if (currentToolUse && currentToolUse.toolName === block.name) {
+      // Parallel calls share a name, so pair by id, the same way as while streaming
+      const currentToolUse = findToolCall(steps, s => ({
+        toolUseId: s.toolUseId,
+        name: s.toolName,
+        answered: s.type !== 'tool' || s.toolResult !== undefined
+      }), block.tool_use_id, block.name);
+      if (currentToolUse) {
         let resultData: any = null;
         if (block.display_content) {
           resultData = block.display_content;
@@ -1229,8 +2174,6 @@ function parseStoredMessageContent(content: ContentBlock[]): Step[] {
         }
         currentToolUse.toolResult = resultData;
         currentToolUse.isError = block.is_error;
-        steps.push(currentToolUse);
-        currentToolUse = null;
       }
     } else if (block.type === 'text') {
       steps.push({
@@ -1241,21 +2184,26 @@ function parseStoredMessageContent(content: ContentBlock[]): Step[] {
     }
   }
 
-  if (currentToolUse) {
-    steps.push(currentToolUse);
-  }
-
   return steps;
 }
 
 // Load conversation
 async function loadConversation(convId: string) {
+  if (queuedItems(convId).some(item => item.newConversation)) {
+    clearAttachments();
+    showPendingConversation(convId);
+    return;
+  }
+
   try {
     clearAttachments();
     const conv = await window.claude.loadConversation(convId);
     conversationId = convId;
+    conversationModel = conv.model || null;
+    loadConversationPreferences(convId);
     currentConversationTitle = conv.name || 'Conversation';
     currentConversationMessages = [];
+    artifactsPanel.setArtifacts(convId, conv.artifacts);
 
     isLoading = false;
     const sendBtn = $('send-btn');
@@ -1295,6 +2243,10 @@ async function loadConversation(convId: string) {
             file_type: f.file_kind === 'image' ? 'image/png' : 'application/octet-stream',
             previewUrl: f.preview_url || f.thumbnail_url
           }));
+          // Text files sent inline
+          for (const a of msg.attachments || []) {
+            attachments.push({ id: crypto.randomUUID(), document_id: '', ...a });
+          }
 
           if (text || attachments.length > 0) {
             addMessage('user', text, false, prevMsgUuid, '', attachments);
@@ -1335,11 +2287,18 @@ async function loadConversation(convId: string) {
       parentMessageUuid = convId;
     }
 
+    renderQueuedMessages();
     closeSidebar();
     renderConversationsList();
     scrollToBottom();
   } catch (e) {
     console.error('Failed to load conversation:', e);
+    showChat();
+    const messagesEl = $('messages');
+    if (messagesEl) {
+      messagesEl.innerHTML = `<div class="empty-state" id="empty-state"><div class="empty-state-icon">⚠</div><p>Couldn't open this conversation</p><span class="hint">${escapeHtml(ipcErrorMessage(e))}</span></div>`;
+    }
+    closeSidebar();
   }
 }
 
@@ -1376,23 +2335,122 @@ async function login() {
     showChat();
     await startNewConversation();
     loadConversationsList();
+    loadStyles(true);
+    loadDefaultTools();
+    loadRegionSettings();
+    loadAccounts();
   } else {
     if (loginError) loginError.textContent = r.error || 'Failed';
   }
 }
 
+// Signs out the window's account. The reload lands on another signed-in
+// account if there is one, otherwise on the login screen
 async function logout() {
   await window.claude.logout();
-  conversationId = null;
-  parentMessageUuid = null;
-  conversations = [];
-  clearAttachments();
+  window.location.reload();
+}
 
-  const messagesEl = $('messages');
-  if (messagesEl) {
-    messagesEl.innerHTML = '<div class="empty-state" id="empty-state"><div class="empty-state-icon">✦</div><p>What can I help with?</p><span class="hint">Claude is ready</span></div>';
+// Accounts (sidebar footer switcher)
+let accountList: AccountList | null = null;
+
+async function loadAccounts(refresh = false) {
+  try {
+    accountList = await window.claude.getAccounts(refresh);
+  } catch (e) {
+    console.warn('Failed to load accounts:', e);
+    return;
+  }
+  renderAccountSwitcher();
+}
+
+function orgName(account: AccountInfo, orgId: string | null): string {
+  const org = account.organizations.find(o => o.uuid === orgId);
+  return org ? org.name || org.uuid : account.orgName;
+}
+
+function renderAccountSwitcher() {
+  const container = $('sidebar-account');
+  if (!container) return;
+
+  const list = accountList;
+  const current = list?.accounts.find(a => a.id === list.currentAccountId);
+  if (!list || !current) {
+    container.innerHTML = '';
+    return;
+  }
+
+  const name = orgName(current, list.currentOrgId);
+  const wasOpen = container.querySelector('.account-menu')?.classList.contains('open');
+  container.innerHTML = `
+    <button class="account-switcher-btn" data-action="toggle" title="Switch account or organization">
+      <span class="account-avatar">${escapeHtml(name.charAt(0).toUpperCase() || '?')}</span>
+      <span class="account-name">${escapeHtml(name)}</span>
+      <span class="account-caret">▾</span>
+    </button>
+    <div class="account-menu ${wasOpen ? 'open' : ''}">
+      ${list.accounts.map(account => `
+        <div class="account-menu-group">
+          ${account.organizations.map(org => {
+            const active = account.id === list.currentAccountId && org.uuid === list.currentOrgId;
+            return `
+              <button class="account-menu-item ${active ? 'active' : ''}" data-action="switch" data-account="${escapeHtml(account.id)}" data-org="${escapeHtml(org.uuid)}">
+                <span class="account-menu-label">${escapeHtml(org.name || org.uuid)}</span>${active ? '✓' : ''}
+              </button>
+            `;
+          }).join('')}
+          <button class="account-menu-item secondary" data-action="new-window" data-account="${escapeHtml(account.id)}">Open in new window</button>
+        </div>
+      `).join('')}
+      <div class="account-menu-divider"></div>
+      <button class="account-menu-item" data-action="add">Add account</button>
+      <button class="account-menu-item danger" data-action="sign-out">Sign out of ${escapeHtml(name)}</button>
+    </div>
+  `;
+}
+
+function closeAccountMenu() {
+  $('sidebar-account')?.querySelector('.account-menu')?.classList.remove('open');
+}
+
+function handleAccountAction(e: Event) {
+  e.stopPropagation();
+  const target = (e.target as HTMLElement).closest('[data-action]') as HTMLElement | null;
+  if (!target) return;
+
+  const { action, account, org } = target.dataset;
+  if (action === 'toggle') {
+    const menu = $('sidebar-account')?.querySelector('.account-menu');
+    const opening = !menu?.classList.contains('open');
+    menu?.classList.toggle('open', opening);
+    // Organizations may have changed since sign-in
+    if (opening) loadAccounts(true);
+    return;
+  }
+
+  closeAccountMenu();
+  if (action === 'switch' && account) switchAccount(account, org);
+  else if (action === 'new-window' && account) window.claude.newWindow(account);
+  else if (action === 'add') addAccount();
+  else if (action === 'sign-out') logout();
+}
+
+// Rebind this window and start over in the chosen account and org
+async function switchAccount(accountId: string, orgId?: string) {
+  if (accountId === accountList?.currentAccountId && orgId === accountList?.currentOrgId) return;
+  try {
+    await window.claude.switchAccount(accountId, orgId);
+  } catch (e) {
+    console.error('Failed to switch account:', e);
+    return;
   }
-  showLogin();
+  window.location.reload();
+}
+
+// Sign in to another account; this window switches to it
+async function addAccount() {
+  const r = await window.claude.login();
+  if (r.success) window.location.reload();
 }
 
 async function startNewConversation() {
@@ -1407,20 +2465,288 @@ async function startNewConversation() {
 
 function newChat() {
   conversationId = null;
+  conversationModel = null;
   parentMessageUuid = null;
+  activeProject = null;
+  renderProjectChip();
+  selectedStyleKey = undefined;
+  toolOverrides = {};
+  thinkingPreference = { ...thinkingPreference, enabled: false };
+  renderStylePickers();
+  renderToolPickers();
+  renderThinkingPickers();
   clearAttachments();
+  artifactsPanel.setArtifacts(null, []);
   const homeInput = $('home-input') as HTMLTextAreaElement;
   if (homeInput) homeInput.value = '';
   closeSidebar();
   showHome();
 }
 
+// Usage limit banner above both composers
+const artifactsPanel = createArtifactsPanel(async (convId, artifactId, versionIndex) => {
+  try {
+    const result = await window.claude.saveArtifact(convId, artifactId, versionIndex);
+    if (!result.success && !result.canceled) {
+      console.error('Failed to save artifact:', result.error);
+    }
+  } catch (e) {
+    console.error('Failed to save artifact:', e);
+  }
+});
+
+const updateQuotaBanner = createQuotaBanner(
+  ['quota-banner', 'home-quota-banner'].map(id => $(id)).filter((el): el is HTMLElement => !!el)
+);
+
+async function loadQuota() {
+  try {
+    updateQuotaBanner((await window.claude.getQuota())?.limit || null);
+  } catch (e) {
+    console.warn('Failed to load quota:', e);
+  }
+}
+
+// Offline outbox
+function queuedItems(convId: string | null): OutboxItem[] {
+  return convId ? outbox.items.filter(item => item.conversationId === convId) : [];
+}
+
+function renderOfflineNotice() {
+  const queued = outbox.items.filter(item => item.status !== 'failed').length;
+  const text = queued > 0
+    ? `You're offline. ${queued} ${queued === 1 ? 'message' : 'messages'} will be sent when the connection is back.`
+    : "You're offline. Messages you send will be queued.";
+  ['offline-notice', 'home-offline-notice'].forEach(id => {
+    const el = $(id);
+    if (!el) return;
+    el.textContent = text;
+    el.classList.toggle('visible', !outbox.online);
+  });
+}
+
+function queuedStatusText(item: OutboxItem): string {
+  if (item.status === 'sending') return 'Sending…';
+  if (item.status === 'failed') return `Not sent: ${item.error ? describeApiError(item.error) : 'unknown error'}`;
+  return outbox.online ? 'Waiting to send' : 'Queued until you\'re back online';
+}
+
+function buildQueuedMessage(item: OutboxItem): HTMLElement {
+  const el = document.createElement('div');
+  el.className = `message user queued ${item.status}`;
+  el.dataset.outboxId = item.id;
+
+  const content = document.createElement('div');
+  content.className = 'message-content';
+  el.appendChild(content);
+
+  if (editingOutboxId === item.id && item.status !== 'sending') {
+    el.classList.add('editing');
+    content.innerHTML = `
+      <div class="message-edit-container">
+        <textarea class="message-edit-textarea">${escapeHtml(item.message)}</textarea>
+        <div class="message-edit-actions">
+          <button class="message-edit-cancel">${closeSvg}</button>
+          <button class="message-edit-submit">${checkSvg}</button>
+        </div>
+      </div>
+    `;
+    const textarea = content.querySelector('.message-edit-textarea') as HTMLTextAreaElement;
+    const save = () => {
+      const text = textarea.value.trim();
+      editingOutboxId = null;
+      if (text && text !== item.message) {
+        window.claude.editOutboxItem(item.id, text).catch(err => {
+          attachmentError = ipcErrorMessage(err);
+          renderAttachmentList();
+          renderQueuedMessages();
+        });
+      } else {
+        renderQueuedMessages();
+      }
+    };
+    const cancel = () => {
+      editingOutboxId = null;
+      renderQueuedMessages();
+    };
+    textarea.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        save();
+      } else if (e.key === 'Escape') {
+        cancel();
+      }
+    });
+    content.querySelector('.message-edit-cancel')?.addEventListener('click', cancel);
+    content.querySelector('.message-edit-submit')?.addEventListener('click', save);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+    });
+  } else {
+    content.innerHTML = escapeHtml(item.message);
+  }
+
+  if (item.attachments.length > 0) {
+    el.appendChild(renderMessageAttachments(item.attachments));
+  }
+
+  const status = document.createElement('div');
+  status.className = 'queued-status';
+  status.innerHTML = `
+    <span class="queued-label">${escapeHtml(queuedStatusText(item))}</span>
+    ${item.status === 'failed' ? '<button class="queued-action" data-action="retry">Retry</button>' : ''}
+    ${item.status !== 'sending' ? '<button class="queued-action" data-action="edit">Edit</button>' : ''}
+    <button class="queued-action danger" data-action="discard">Discard</button>
+  `;
+  status.querySelectorAll<HTMLElement>('.queued-action').forEach(btn => {
+    btn.addEventListener('click', () => handleQueuedAction(item, btn.dataset.action));
+  });
+  el.appendChild(status);
+  return el;
+}
+
+function handleQueuedAction(item: OutboxItem, action: string | undefined) {
+  switch (action) {
+    case 'edit':
+      editingOutboxId = item.id;
+      renderQueuedMessages();
+      break;
+    case 'retry':
+      window.claude.retryOutboxItem(item.id);
+      break;
+    case 'discard':
+      if (editingOutboxId === item.id) editingOutboxId = null;
+      window.claude.discardOutboxItem(item.id);
+      break;
+  }
+}
+
+// Show the current conversation's queued messages after the sent ones
+function renderQueuedMessages() {
+  $$('.message.queued').forEach(el => el.remove());
+  const messagesEl = $('messages');
+  const items = queuedItems(conversationId);
+  if (!messagesEl || items.length === 0) return;
+
+  hideEmptyState();
+  items.forEach(item => messagesEl.appendChild(buildQueuedMessage(item)));
+  scrollToBottom();
+}
+
+function applyOutboxState(state: OutboxState) {
+  outbox = state;
+  if (editingOutboxId && !outbox.items.some(item => item.id === editingOutboxId)) {
+    editingOutboxId = null;
+  }
+  renderOfflineNotice();
+  renderQueuedMessages();
+}
+
+async function loadOutbox() {
+  try {
+    applyOutboxState(await window.claude.getOutbox());
+  } catch (e) {
+    console.warn('Failed to load outbox:', e);
+  }
+}
+
+// Put a message in the outbox; the attachments go with it
+async function queueMessage(convId: string, msg: string, parentUuid: string, newConversation?: OutboxItem['newConversation']) {
+  await window.claude.queueMessage({
+    conversationId: convId,
+    newConversation,
+    message: msg,
+    parentMessageUuid: parentUuid,
+    attachments: getAttachmentPayloads(),
+    options: composerOptions()
+  });
+  clearAttachments();
+}
+
+// Queue a message from the home screen as a new conversation, created once
+// the connection is back
+async function queueFromHome(msg: string) {
+  const input = $('home-input') as HTMLTextAreaElement;
+  const convId = crypto.randomUUID();
+  try {
+    await queueMessage(convId, msg, convId, { model: selectedModel, projectUuid: activeProject?.uuid });
+  } catch (e) {
+    attachmentError = ipcErrorMessage(e);
+    renderAttachmentList();
+    return;
+  }
+  if (input) {
+    input.value = '';
+    input.style.height = 'auto';
+  }
+  showPendingConversation(convId);
+}
+
+// Chat view for a conversation that only exists in the outbox so far
+function showPendingConversation(convId: string) {
+  conversationId = convId;
+  parentMessageUuid = convId;
+  currentConversationTitle = 'New conversation';
+  currentConversationMessages = [];
+  artifactsPanel.setArtifacts(convId, []);
+  showChat();
+  const messagesEl = $('messages');
+  if (messagesEl) messagesEl.innerHTML = '';
+  const sidebarTab = $('sidebar-tab');
+  if (sidebarTab) sidebarTab.classList.remove('hidden');
+  renderQueuedMessages();
+}
+
+// Note under a reply that didn't finish on its own
+function streamEndNotice(d: CompleteData): string {
+  if (d.endReason === 'truncated') {
+    return '<div class="stream-end-notice">The response was cut off before it finished.</div>';
+  }
+  if (d.endReason === 'errored') {
+    return `<div class="stream-end-notice error">${escapeHtml(d.error || 'Something went wrong')}. The response is incomplete.</div>`;
+  }
+  return '';
+}
+
+// A recorded stream replays as a reply to its original prompt; the usual
+// message events render it from here on
+function showReplay(d: { conversationId: string; prompt: string; title: string }) {
+  clearRetryCountdown();
+  resetStreamingBlocks();
+  showPendingConversation(d.conversationId);
+  currentConversationTitle = `Replay: ${d.title}`;
+  if (d.prompt) addMessage('user', d.prompt);
+  currentStreamingElement = addMessage('assistant', '<div class="loading-dots"><span></span><span></span><span></span></div>', true);
+  isLoading = true;
+  const sendBtn = $('send-btn');
+  const stopBtn = $('stop-btn');
+  if (sendBtn) sendBtn.classList.add('hidden');
+  if (stopBtn) stopBtn.classList.add('visible');
+}
+
+// The connection dropped before the message went out: take it back off the
+// screen and queue it instead of showing an error
+async function moveToOutbox(userEl: HTMLElement, convId: string, msg: string, parentUuid: string) {
+  userEl.remove();
+  currentStreamingElement?.remove();
+  currentStreamingElement = null;
+  const last = currentConversationMessages[currentConversationMessages.length - 1];
+  if (last?.role === 'human' && last.content === msg) currentConversationMessages.pop();
+  isLoading = false;
+  const sendBtn = $('send-btn');
+  const stopBtn = $('stop-btn');
+  if (sendBtn) sendBtn.classList.remove('hidden');
+  if (stopBtn) stopBtn.classList.remove('visible');
+  await queueMessage(convId, msg, parentUuid);
+}
+
 // Send message functions
 async function sendFromHome() {
   const input = $('home-input') as HTMLTextAreaElement;
   const msg = input?.value.trim();
   if (!msg || isLoading) return;
-  if (uploadingAttachments) {
+  if (uploadingAttachments.length > 0) {
     attachmentError = 'Please wait for attachments to finish uploading';
     renderAttachmentList();
     return;
@@ -1429,12 +2755,27 @@ async function sendFromHome() {
   const attachmentPayloads = getAttachmentPayloads();
   const userAttachmentCopies = [...pendingAttachments];
 
+  if (!outbox.online) {
+    await queueFromHome(msg);
+    return;
+  }
+
   isLoading = true;
   const homeSendBtn = $('home-send-btn') as HTMLButtonElement;
   if (homeSendBtn) homeSendBtn.disabled = true;
 
   try {
-    const r = await window.claude.createConversation(selectedModel);
+    let r: Awaited<ReturnType<typeof window.claude.createConversation>>;
+    try {
+      r = await window.claude.createConversation(selectedModel, activeProject?.uuid);
+    } catch (e) {
+      // Failing to connect marks us offline before the error arrives
+      if (outbox.online) throw e;
+      isLoading = false;
+      if (homeSendBtn) homeSendBtn.disabled = false;
+      await queueFromHome(msg);
+      return;
+    }
     conversationId = r.conversationId;
     parentMessageUuid = r.parentMessageUuid || r.uuid || crypto.randomUUID();
 
@@ -1452,13 +2793,13 @@ async function sendFromHome() {
     if (homeContainer) homeContainer.classList.remove('active');
     if (chatContainer) chatContainer.classList.add('active');
 
-    const modelBadge = document.querySelector('.model-badge');
-    if (modelBadge) modelBadge.textContent = modelDisplayNames[selectedModel] || 'Opus 4.5';
+    conversationModel = r.model || selectedModel;
+    updateModelBadge();
 
     const sidebarTab = $('sidebar-tab');
     if (sidebarTab) sidebarTab.classList.remove('hidden');
 
-    addMessage('user', msg, false, null, 'fly-in', userAttachmentCopies);
+    const userEl = addMessage('user', msg, false, null, 'fly-in', userAttachmentCopies);
 
     await new Promise(resolve => setTimeout(resolve, 200));
 
@@ -1474,15 +2815,25 @@ async function sendFromHome() {
       if (chatContainer) chatContainer.classList.remove('entering');
     }, 600);
 
-    await window.claude.sendMessage(conversationId, msg, parentMessageUuid!, attachmentPayloads);
+    const result = await window.claude.sendMessage(conversationId, msg, parentMessageUuid!, attachmentPayloads, composerOptions());
+    if (result?.offline) {
+      if (homeSendBtn) homeSendBtn.disabled = false;
+      if (input) {
+        input.value = '';
+        input.style.height = 'auto';
+      }
+      await moveToOutbox(userEl, conversationId, msg, parentMessageUuid!);
+      return;
+    }
+    if (result?.error) throw new Error(describeApiError(result.error));
 
     clearAttachments();
 
     window.claude.generateTitle(conversationId, msg).then(() => {
-      loadConversationsList();
+      refreshSidebar();
     }).catch(err => {
       console.warn('Failed to generate title:', err);
-      loadConversationsList();
+      refreshSidebar();
     });
 
     if (input) {
@@ -1490,6 +2841,7 @@ async function sendFromHome() {
       input.style.height = 'auto';
     }
   } catch (e: any) {
+    clearRetryCountdown();
     if (currentStreamingElement) {
       const content = currentStreamingElement.querySelector('.message-content');
       if (content) content.innerHTML = '<span style="color:#FF453A">Error: ' + e.message + '</span>';
@@ -1509,7 +2861,7 @@ async function sendMessage() {
   const input = $('input') as HTMLTextAreaElement;
   const msg = input?.value.trim();
   if (!msg || isLoading || !conversationId) return;
-  if (uploadingAttachments) {
+  if (uploadingAttachments.length > 0) {
     attachmentError = 'Please wait for attachments to finish uploading';
     renderAttachmentList();
     return;
@@ -1518,6 +2870,22 @@ async function sendMessage() {
   const attachmentPayloads = getAttachmentPayloads();
   const userAttachmentCopies = [...pendingAttachments];
 
+  // Offline, or behind messages still waiting: queue to keep the order
+  if (!outbox.online || queuedItems(conversationId).length > 0) {
+    if (input) {
+      input.value = '';
+      input.style.height = 'auto';
+    }
+    try {
+      await queueMessage(conversationId, msg, parentMessageUuid!);
+    } catch (e) {
+      if (input) input.value = msg;
+      attachmentError = ipcErrorMessage(e);
+      renderAttachmentList();
+    }
+    return;
+  }
+
   isLoading = true;
   if (input) {
     input.value = '';
@@ -1530,14 +2898,21 @@ async function sendMessage() {
   if (stopBtn) stopBtn.classList.add('visible');
 
   hideEmptyState();
-  addMessage('user', msg, false, null, '', userAttachmentCopies);
+  const sentParentUuid = parentMessageUuid!;
+  const userEl = addMessage('user', msg, false, null, '', userAttachmentCopies);
   currentConversationMessages.push({ role: 'human', content: msg, timestamp: new Date().toISOString() });
   currentStreamingElement = addMessage('assistant', '<div class="loading-dots"><span></span><span></span><span></span></div>', true);
 
   try {
-    await window.claude.sendMessage(conversationId, msg, parentMessageUuid!, attachmentPayloads);
+    const result = await window.claude.sendMessage(conversationId, msg, sentParentUuid, attachmentPayloads, composerOptions());
+    if (result?.offline) {
+      await moveToOutbox(userEl, conversationId, msg, sentParentUuid);
+      return;
+    }
+    if (result?.error) throw new Error(describeApiError(result.error));
     clearAttachments();
   } catch (e: any) {
+    clearRetryCountdown();
     if (currentStreamingElement) {
       const content = currentStreamingElement.querySelector('.message-content');
       if (content) content.innerHTML = '<span style="color:#FF453A">Error: ' + e.message + '</span>';
@@ -1554,6 +2929,15 @@ async function stopGenerating() {
 
   try {
     await window.claude.stopResponse(conversationId);
+  } catch (e) {
+    console.error('Stop failed:', e);
+  }
+
+  // Normally the aborted completion event has already finalized the message.
+  // If the stream was not ours to abort, fall back to reloading the tree.
+  if (!currentStreamingElement) return;
+
+  try {
     const conv = await window.claude.loadConversation(conversationId);
     if (conv.chat_messages && conv.chat_messages.length > 0) {
       const lastMsg = conv.chat_messages[conv.chat_messages.length - 1];
@@ -1595,10 +2979,30 @@ async function init() {
   if (await window.claude.getAuthStatus()) {
     showHome();
     loadConversationsList();
+    loadStyles(true);
+    loadDefaultTools();
+    loadRegionSettings();
+    loadAccounts();
+    loadOutbox();
+    loadQuota();
+    loadModels();
   } else {
     showLogin();
   }
 
+  window.claude.onOutboxChanged(applyOutboxState);
+  window.claude.onQuotaChanged(state => updateQuotaBanner(state.limit));
+
+  // A queued message went out: show it with its reply
+  window.claude.onOutboxSent(d => {
+    refreshSidebar();
+    if (d.conversationId === conversationId && !isLoading) {
+      loadConversation(d.conversationId);
+    }
+  });
+
+  window.claude.onReplayStart(showReplay);
+
   // Set up message listeners
   window.claude.onMessageThinking(d => {
     if (currentStreamingElement && d.conversationId === conversationId) {
@@ -1624,10 +3028,13 @@ async function init() {
   window.claude.onMessageToolUse(d => {
     if (currentStreamingElement && d.conversationId === conversationId) {
       hideEmptyState();
+      // Message updates arrive mid-stream; keep the input streamed so far
+      const previous = streamingBlocks.toolBlocks.get(d.blockIndex);
       streamingBlocks.toolBlocks.set(d.blockIndex, {
+        id: d.toolUseId,
         name: d.toolName,
         message: d.message,
-        input: d.input,
+        input: d.input ?? previous?.input,
         isRunning: d.isRunning
       });
       updateStreamingContent();
@@ -1635,22 +3042,59 @@ async function init() {
     }
   });
 
+  window.claude.onMessageToolInput(d => {
+    const block = streamingBlocks.toolBlocks.get(d.blockIndex);
+    if (currentStreamingElement && d.conversationId === conversationId && block) {
+      block.input = d.input;
+      updateStreamingContent();
+    }
+  });
+
+  window.claude.onMessageArtifacts(d => {
+    if (d.conversationId === conversationId) {
+      artifactsPanel.setArtifacts(d.conversationId, d.artifacts, d.artifactId);
+    }
+  });
+
+  // Artifact steps open their version in the panel instead of expanding
+  $('messages')?.addEventListener('click', (e) => {
+    const openBtn = (e.target as HTMLElement).closest('.artifact-open-btn') as HTMLElement | null;
+    if (!openBtn?.dataset.toolUseId) return;
+    e.stopPropagation();
+    artifactsPanel.showToolUse(openBtn.dataset.toolUseId);
+  }, true);
+
   window.claude.onMessageToolResult(d => {
     if (currentStreamingElement && d.conversationId === conversationId) {
-      streamingBlocks.toolBlocks.forEach((block) => {
-        if (block.name === d.toolName && block.isRunning) {
-          block.result = d.result;
-          block.isError = d.isError;
-          block.isRunning = false;
-        }
-      });
+      // Pair by id, the same way as once the message is stored
+      const blocks = Array.from(streamingBlocks.toolBlocks.values());
+      const block = findToolCall(blocks, b => ({
+        toolUseId: b.id,
+        name: b.name,
+        answered: b.result !== undefined
+      }), d.toolUseId, d.toolName);
+      if (block) {
+        block.result = d.result;
+        block.isError = d.isError;
+        block.isRunning = false;
+      }
       updateStreamingContent();
       scrollToBottom();
     }
   });
 
+  window.claude.onUploadProgress(updateUploadProgress);
+
+  window.claude.onMessageRetry(d => {
+    if (currentStreamingElement && d.conversationId === conversationId) {
+      showRetryNotice(d);
+      scrollToBottom();
+    }
+  });
+
   window.claude.onMessageStream(d => {
     if (currentStreamingElement && d.conversationId === conversationId) {
+      clearRetryCountdown();
       hideEmptyState();
       streamingBlocks.textContent = d.fullText;
       if (d.blockIndex !== undefined) {
@@ -1663,16 +3107,21 @@ async function init() {
 
   window.claude.onMessageComplete(d => {
     if (currentStreamingElement && d.conversationId === conversationId) {
+      clearRetryCountdown();
       const finalHtml = buildInterleavedContent(d.steps);
       const content = currentStreamingElement.querySelector('.message-content');
-      if (content) {
-        content.innerHTML = finalHtml;
+
+      // Aborted before anything arrived: nothing to keep
+      if (d.aborted && !finalHtml && !d.messageUuid) {
+        currentStreamingElement.remove();
+      } else if (content) {
+        content.innerHTML = (finalHtml || (d.aborted ? '<span style="opacity:0.5;font-style:italic">Stopped</span>' : '')) + streamEndNotice(d);
         // Add click listeners to step items
         content.querySelectorAll('.step-item').forEach(el => {
           el.addEventListener('click', () => el.classList.toggle('expanded'));
         });
       }
-      parentMessageUuid = d.messageUuid;
+      if (d.messageUuid) parentMessageUuid = d.messageUuid;
 
       // Store assistant message for export
       if (d.fullText) {
@@ -1699,6 +3148,9 @@ function setupEventListeners() {
   // Login button
   $('login-btn')?.addEventListener('click', login);
 
+  // Language settings may have changed in the settings window
+  window.addEventListener('focus', loadRegionSettings);
+
   // New chat button
   $('new-chat-btn')?.addEventListener('click', newChat);
 
@@ -1755,15 +3207,23 @@ function setupEventListeners() {
   document.addEventListener('click', () => {
     menuDropdown?.classList.remove('visible');
     homeMenuDropdown?.classList.remove('visible');
+    closeComposerMenu();
+    closeAccountMenu();
   });
 
   // Sidebar toggle
   $('sidebar-tab')?.addEventListener('click', toggleSidebar);
+  $('sidebar-content')?.addEventListener('scroll', handleSidebarScroll);
+  $('sidebar-account')?.addEventListener('click', handleAccountAction);
   $('sidebar-overlay')?.addEventListener('click', closeSidebar);
+  $$('.sidebar-view-btn').forEach(btn => {
+    btn.addEventListener('click', () => setSidebarView((btn as HTMLElement).dataset.view === 'projects' ? 'projects' : 'chats'));
+  });
 
-  // Model selection
-  $$('.model-option').forEach(btn => {
-    btn.addEventListener('click', () => selectModel(btn as HTMLElement));
+  // Model selection (buttons are rendered from the catalog)
+  document.querySelector('.model-selector')?.addEventListener('click', (e) => {
+    const btn = (e.target as HTMLElement).closest<HTMLElement>('.model-option');
+    if (btn) selectModel(btn);
   });
 
   // Home input
@@ -1776,12 +3236,22 @@ function setupEventListeners() {
     }
   });
 
+  // Pasted files (e.g. copied in the file manager) attach like picked ones
+  const handlePaste = (e: ClipboardEvent) => {
+    const files = Array.from(e.clipboardData?.files || []);
+    if (files.length === 0) return;
+    e.preventDefault();
+    handleFileSelection(files);
+  };
+  homeInput?.addEventListener('paste', handlePaste);
+
   // Home send button
   $('home-send-btn')?.addEventListener('click', sendFromHome);
 
   // Chat input
   const chatInput = $('input') as HTMLTextAreaElement;
   chatInput?.addEventListener('input', () => autoResize(chatInput));
+  chatInput?.addEventListener('paste', handlePaste);
   chatInput?.addEventListener('keydown', (e) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -1798,6 +3268,13 @@ function setupEventListeners() {
     fileInput.value = '';
   });
 
+  // Project knowledge upload
+  const knowledgeInput = $('knowledge-input') as HTMLInputElement;
+  knowledgeInput?.addEventListener('change', () => {
+    handleKnowledgeSelection(knowledgeInput.files);
+    knowledgeInput.value = '';
+  });
+
   // Send button
   $('send-btn')?.addEventListener('click', sendMessage);
 
@@ -1847,3 +3324,6 @@ function setupEventListeners() {
 init();
 setupEventListeners();
 renderAttachmentList();
+renderStylePickers();
+renderToolPickers();
+renderThinkingPickers();
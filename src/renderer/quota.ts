@@ -0,0 +1,62 @@
+// Usage limit banner, shared by the main window and Spotlight
+
+import type { UsageLimit } from '../types';
+
+// "2h 14m", "14m 5s", "45s"
+export function formatCountdown(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
+// Banner text for a usage limit, or null when there's nothing to warn about
+export function describeUsageLimit(limit: UsageLimit | null | undefined, now = Date.now()): string | null {
+  if (!limit || limit.status === 'within_limit') return null;
+
+  const scope = limit.perModelLimit ? ' for this model' : '';
+  const resets = limit.resetsAt && limit.resetsAt > now ? ` Resets in ${formatCountdown(limit.resetsAt - now)}.` : '';
+
+  if (limit.status === 'exceeded_limit') {
+    return `You've reached your message limit${scope}.${resets}`;
+  }
+  const remaining = limit.remaining !== undefined
+    ? `${limit.remaining} ${limit.remaining === 1 ? 'message' : 'messages'} left${scope}.`
+    : `You're close to your message limit${scope}.`;
+  return `${remaining}${resets}`;
+}
+
+// Keep banner elements in sync with a usage limit, ticking the countdown
+// every second. Returns the function to call with each new limit.
+export function createQuotaBanner(elements: HTMLElement[], onVisibilityChange?: () => void): (limit: UsageLimit | null) => void {
+  let current: UsageLimit | null = null;
+  let timer: number | null = null;
+  let visible = false;
+
+  const render = () => {
+    const text = describeUsageLimit(current);
+    elements.forEach(el => {
+      el.textContent = text || '';
+      el.classList.toggle('visible', !!text);
+      el.classList.toggle('exceeded', current?.status === 'exceeded_limit');
+    });
+    if (!text && timer !== null) {
+      clearInterval(timer);
+      timer = null;
+    }
+    if (visible !== !!text) {
+      visible = !!text;
+      onVisibilityChange?.();
+    }
+  };
+
+  return (limit) => {
+    current = limit;
+    if (timer !== null) clearInterval(timer);
+    timer = limit?.resetsAt ? window.setInterval(render, 1000) : null;
+    render();
+  };
+}
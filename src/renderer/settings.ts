@@ -6,6 +6,58 @@ interface Settings {
   spotlightKeybind: string;
   spotlightPersistHistory: boolean;
   newWindowKeybind: string;
+  activeBackendProfile: string;
+  customStyles: CustomStyle[];
+  defaultTools: Record<string, boolean>;
+  locale: string;
+  timezone: string;
+  imageProcessing: ImageProcessing;
+  networkInspector: boolean;
+  recordStreams: boolean;
+  network: NetworkSettings;
+}
+
+interface NetworkSettings {
+  proxyMode: 'system' | 'direct' | 'pac' | 'fixed';
+  pacUrl: string;
+  proxyRules: string;
+  bypassList: string;
+  caBundlePath: string;
+}
+
+interface ConnectionTestResult {
+  ok: boolean;
+  status?: number;
+  proxy: string;
+  durationMs: number;
+  error?: string;
+}
+
+interface ReplayResult {
+  success: boolean;
+  canceled?: boolean;
+  filePath?: string;
+  chunks?: number;
+  error?: string;
+}
+
+interface ImageProcessing {
+  enabled: boolean;
+  maxDimension: number;
+  quality: number;
+}
+
+interface CustomStyle {
+  type: 'custom';
+  key: string;
+  name: string;
+  prompt: string;
+  summary: string;
+}
+
+interface BackendProfile {
+  name: string;
+  baseUrl: string;
 }
 
 // DOM Elements
@@ -14,6 +66,51 @@ const keybindDisplay = document.getElementById('keybind-display') as HTMLElement
 const newWindowKeybindInput = document.getElementById('new-window-keybind-input') as HTMLElement;
 const newWindowKeybindDisplay = document.getElementById('new-window-keybind-display') as HTMLElement;
 const persistHistoryCheckbox = document.getElementById('persist-history') as HTMLInputElement;
+const backendProfileSelect = document.getElementById('backend-profile') as HTMLSelectElement;
+const customStyleList = document.getElementById('custom-style-list') as HTMLElement;
+const customStyleName = document.getElementById('custom-style-name') as HTMLInputElement;
+const customStylePrompt = document.getElementById('custom-style-prompt') as HTMLTextAreaElement;
+const customStyleAdd = document.getElementById('custom-style-add') as HTMLButtonElement;
+const customStyleError = document.getElementById('custom-style-error') as HTMLElement;
+const toolCheckboxes = Array.from(document.querySelectorAll<HTMLInputElement>('input[data-tool]'));
+const localeSelect = document.getElementById('locale-select') as HTMLSelectElement;
+const timezoneSelect = document.getElementById('timezone-select') as HTMLSelectElement;
+const imageProcessingCheckbox = document.getElementById('image-processing-enabled') as HTMLInputElement;
+const imageMaxDimensionSelect = document.getElementById('image-max-dimension') as HTMLSelectElement;
+const imageQualityInput = document.getElementById('image-quality') as HTMLInputElement;
+const imageQualityValue = document.getElementById('image-quality-value') as HTMLElement;
+const networkInspectorCheckbox = document.getElementById('network-inspector') as HTMLInputElement;
+const openNetworkInspectorButton = document.getElementById('open-network-inspector') as HTMLButtonElement;
+const recordStreamsCheckbox = document.getElementById('record-streams') as HTMLInputElement;
+const replayWindowSelect = document.getElementById('replay-window') as HTMLSelectElement;
+const replaySpeedSelect = document.getElementById('replay-speed') as HTMLSelectElement;
+const replayButton = document.getElementById('replay-stream') as HTMLButtonElement;
+const replayStatus = document.getElementById('replay-status') as HTMLElement;
+const replayHint = replayStatus.textContent || '';
+const proxyModeSelect = document.getElementById('proxy-mode') as HTMLSelectElement;
+const proxyPacUrlInput = document.getElementById('proxy-pac-url') as HTMLInputElement;
+const proxyRulesInput = document.getElementById('proxy-rules') as HTMLInputElement;
+const proxyBypassInput = document.getElementById('proxy-bypass') as HTMLInputElement;
+const proxyModeItems = Array.from(document.querySelectorAll<HTMLElement>('[data-proxy-mode]'));
+const proxyUsernameInput = document.getElementById('proxy-username') as HTMLInputElement;
+const proxyPasswordInput = document.getElementById('proxy-password') as HTMLInputElement;
+const proxyCredentialsStatus = document.getElementById('proxy-credentials-status') as HTMLElement;
+const proxyCredentialsSave = document.getElementById('proxy-credentials-save') as HTMLButtonElement;
+const proxyCredentialsClear = document.getElementById('proxy-credentials-clear') as HTMLButtonElement;
+const caBundlePath = document.getElementById('ca-bundle-path') as HTMLElement;
+const caBundleChoose = document.getElementById('ca-bundle-choose') as HTMLButtonElement;
+const caBundleClear = document.getElementById('ca-bundle-clear') as HTMLButtonElement;
+const networkTestButton = document.getElementById('network-test') as HTMLButtonElement;
+const networkStatus = document.getElementById('network-status') as HTMLElement;
+
+// Languages offered in the picker (the system locale is added if missing)
+const locales = [
+  'en-US', 'en-GB', 'de-DE', 'es-ES', 'es-419', 'fr-FR', 'it-IT', 'pt-BR', 'nl-NL', 'pl-PL',
+  'sv-SE', 'tr-TR', 'ru-RU', 'uk-UA', 'ar-SA', 'hi-IN', 'id-ID', 'ja-JP', 'ko-KR', 'zh-CN', 'zh-TW'
+];
+
+const systemLocale = navigator.language;
+const systemTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
 let currentSettings: Settings | null = null;
 
@@ -122,6 +219,205 @@ async function loadSettings() {
     keybindDisplay.textContent = formatKeybind(currentSettings.spotlightKeybind);
     newWindowKeybindDisplay.textContent = formatKeybind(currentSettings.newWindowKeybind);
     persistHistoryCheckbox.checked = currentSettings.spotlightPersistHistory;
+    networkInspectorCheckbox.checked = currentSettings.networkInspector;
+    recordStreamsCheckbox.checked = currentSettings.recordStreams;
+    toolCheckboxes.forEach(checkbox => {
+      checkbox.checked = currentSettings?.defaultTools[checkbox.dataset.tool!] !== false;
+    });
+    renderCustomStyles();
+    renderRegionSettings();
+    renderImageSettings();
+    renderNetworkSettings();
+  }
+  renderProxyCredentials(await claude.getProxyCredentials());
+  loadReplayWindows();
+
+  const profiles: Record<string, BackendProfile> = await claude.getBackendProfiles();
+  backendProfileSelect.innerHTML = '';
+  for (const [id, profile] of Object.entries(profiles)) {
+    const option = document.createElement('option');
+    option.value = id;
+    option.textContent = `${profile.name} (${profile.baseUrl})`;
+    backendProfileSelect.appendChild(option);
+  }
+  if (currentSettings) {
+    backendProfileSelect.value = currentSettings.activeBackendProfile;
+  }
+}
+
+// Fill a select with a "System" entry followed by the given values
+function fillSelect(select: HTMLSelectElement, systemLabel: string, values: Array<{ value: string; label: string }>, selected: string) {
+  select.innerHTML = '';
+  const system = document.createElement('option');
+  system.value = '';
+  system.textContent = systemLabel;
+  select.appendChild(system);
+  for (const { value, label } of values) {
+    const option = document.createElement('option');
+    option.value = value;
+    option.textContent = label;
+    select.appendChild(option);
+  }
+  select.value = selected;
+}
+
+// Populate the language and time zone pickers
+function renderRegionSettings() {
+  const names = new Intl.DisplayNames([systemLocale], { type: 'language' });
+  const localeName = (locale: string) => names.of(locale) || locale;
+  const localeValues = locales.includes(systemLocale) ? locales : [systemLocale, ...locales];
+  fillSelect(
+    localeSelect,
+    `System (${localeName(systemLocale)})`,
+    localeValues.map(locale => ({ value: locale, label: localeName(locale) })),
+    currentSettings?.locale || ''
+  );
+
+  const zones = Intl.supportedValuesOf('timeZone');
+  fillSelect(
+    timezoneSelect,
+    `System (${systemTimeZone})`,
+    zones.map(zone => ({ value: zone, label: zone.replace(/_/g, ' ') })),
+    currentSettings?.timezone || ''
+  );
+}
+
+// Save the language or time zone
+async function saveRegion(key: 'locale' | 'timezone', value: string) {
+  if (!currentSettings) return;
+
+  currentSettings = await claude.saveSettings({ [key]: value });
+}
+
+// Show the image preprocessing settings
+function renderImageSettings() {
+  const images = currentSettings?.imageProcessing;
+  if (!images) return;
+
+  imageProcessingCheckbox.checked = images.enabled;
+  // Keep a stored size that isn't one of the presets selectable
+  const size = String(images.maxDimension);
+  if (!Array.from(imageMaxDimensionSelect.options).some(o => o.value === size)) {
+    imageMaxDimensionSelect.add(new Option(`${size} px`, size));
+  }
+  imageMaxDimensionSelect.value = size;
+  imageQualityInput.value = String(images.quality);
+  imageQualityValue.textContent = `${images.quality}%`;
+  imageMaxDimensionSelect.disabled = !images.enabled;
+  imageQualityInput.disabled = !images.enabled;
+}
+
+// Save the image preprocessing settings from the form
+async function saveImageSettings() {
+  if (!currentSettings) return;
+
+  currentSettings = await claude.saveSettings({
+    imageProcessing: {
+      enabled: imageProcessingCheckbox.checked,
+      maxDimension: Number(imageMaxDimensionSelect.value),
+      quality: Number(imageQualityInput.value)
+    }
+  });
+  renderImageSettings();
+}
+
+// Show the network settings, with only the fields the proxy mode uses
+function renderNetworkSettings() {
+  const network = currentSettings?.network;
+  if (!network) return;
+
+  proxyModeSelect.value = network.proxyMode;
+  proxyPacUrlInput.value = network.pacUrl;
+  proxyRulesInput.value = network.proxyRules;
+  proxyBypassInput.value = network.bypassList;
+  proxyModeItems.forEach(item => {
+    item.hidden = item.dataset.proxyMode !== network.proxyMode;
+  });
+  caBundlePath.textContent = network.caBundlePath || 'Trust a PEM bundle of CA certificates, e.g. for a TLS-inspecting proxy';
+  caBundleClear.hidden = !network.caBundlePath;
+}
+
+function setNetworkStatus(text: string, state?: 'ok' | 'error') {
+  networkStatus.textContent = text;
+  networkStatus.classList.toggle('ok', state === 'ok');
+  networkStatus.classList.toggle('error', state === 'error');
+}
+
+// Save the network settings from the form, showing why if the main process rejects them
+async function saveNetworkSettings(caBundle = currentSettings?.network.caBundlePath || '') {
+  if (!currentSettings) return;
+
+  const network: NetworkSettings = {
+    proxyMode: proxyModeSelect.value as NetworkSettings['proxyMode'],
+    pacUrl: proxyPacUrlInput.value,
+    proxyRules: proxyRulesInput.value,
+    bypassList: proxyBypassInput.value,
+    caBundlePath: caBundle
+  };
+  // Show the mode's fields before its required values are filled in
+  proxyModeItems.forEach(item => {
+    item.hidden = item.dataset.proxyMode !== network.proxyMode;
+  });
+  if ((network.proxyMode === 'pac' && !network.pacUrl.trim()) || (network.proxyMode === 'fixed' && !network.proxyRules.trim())) {
+    return;
+  }
+
+  try {
+    currentSettings = await claude.saveSettings({ network });
+    setNetworkStatus('Check that the server can be reached with these settings');
+  } catch (error) {
+    setNetworkStatus(errorMessage(error), 'error');
+  }
+  renderNetworkSettings();
+}
+
+// Errors from ipcRenderer.invoke carry an "Error invoking remote method" prefix
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '');
+}
+
+function renderProxyCredentials(credentials: { username: string; hasPassword: boolean } | null) {
+  proxyUsernameInput.value = credentials?.username || '';
+  proxyPasswordInput.value = '';
+  proxyPasswordInput.placeholder = credentials?.hasPassword ? 'Password (saved)' : 'Password';
+  proxyCredentialsStatus.textContent = credentials
+    ? `Signed in as ${credentials.username}. Stored encrypted`
+    : 'Sent when the proxy asks for it. Stored encrypted';
+  proxyCredentialsClear.hidden = !credentials;
+}
+
+async function saveProxyCredentials(clear: boolean) {
+  const username = proxyUsernameInput.value.trim();
+  try {
+    // An empty password keeps the saved one
+    await claude.setProxyCredentials(clear || !username ? null : { username, password: proxyPasswordInput.value || undefined });
+    renderProxyCredentials(await claude.getProxyCredentials());
+  } catch (error) {
+    proxyCredentialsStatus.textContent = errorMessage(error);
+  }
+}
+
+async function chooseCABundle() {
+  const path: string | null = await claude.chooseCABundle();
+  if (path) saveNetworkSettings(path);
+}
+
+async function runConnectionTest() {
+  networkTestButton.disabled = true;
+  setNetworkStatus('Connecting…');
+  try {
+    const result: ConnectionTestResult = await claude.testConnection();
+    const via = result.proxy === 'DIRECT' ? 'directly' : `via ${result.proxy}`;
+    if (result.ok) {
+      setNetworkStatus(`Connected ${via} in ${result.durationMs} ms (HTTP ${result.status})`, 'ok');
+    } else {
+      setNetworkStatus(`Couldn't connect ${via}: ${result.error}`, 'error');
+    }
+  } catch (error) {
+    setNetworkStatus(errorMessage(error), 'error');
+  } finally {
+    networkTestButton.disabled = false;
   }
 }
 
@@ -139,6 +435,148 @@ async function savePersistHistory(value: boolean) {
   currentSettings = await claude.saveSettings({ spotlightPersistHistory: value });
 }
 
+// Save network recording toggle
+async function saveNetworkInspector(value: boolean) {
+  if (!currentSettings) return;
+
+  currentSettings = await claude.saveSettings({ networkInspector: value });
+}
+
+// Save stream recording toggle
+async function saveRecordStreams(value: boolean) {
+  if (!currentSettings) return;
+
+  currentSettings = await claude.saveSettings({ recordStreams: value });
+}
+
+// List the open main windows as replay targets, keeping the selection
+async function loadReplayWindows() {
+  const windows: Array<{ id: number; title: string }> = await claude.listMainWindows();
+  const selected = replayWindowSelect.value;
+  replayWindowSelect.innerHTML = '';
+  for (const win of windows) {
+    replayWindowSelect.add(new Option(win.title, String(win.id)));
+  }
+  if (windows.some(win => String(win.id) === selected)) replayWindowSelect.value = selected;
+  replayButton.disabled = windows.length === 0;
+}
+
+// Pick a recording and play it into the chosen window
+async function replayStream() {
+  if (!replayWindowSelect.value) return;
+
+  replayButton.disabled = true;
+  replayStatus.textContent = 'Replaying…';
+  try {
+    const result: ReplayResult = await claude.replaySSERecording({
+      windowId: Number(replayWindowSelect.value),
+      speed: Number(replaySpeedSelect.value)
+    });
+    if (result.success) {
+      replayStatus.textContent = `Replayed ${result.chunks} chunks from ${result.filePath?.split(/[\\/]/).pop()}`;
+    } else {
+      replayStatus.textContent = result.canceled ? replayHint : result.error || 'Replay failed';
+    }
+  } finally {
+    replayButton.disabled = false;
+    loadReplayWindows();
+  }
+}
+
+// Save active backend profile
+async function saveBackendProfile(profileId: string) {
+  if (!currentSettings) return;
+
+  currentSettings = await claude.saveSettings({ activeBackendProfile: profileId });
+}
+
+// Save the default tool toggles
+async function saveDefaultTools() {
+  if (!currentSettings) return;
+
+  const defaultTools: Record<string, boolean> = { ...currentSettings.defaultTools };
+  toolCheckboxes.forEach(checkbox => {
+    defaultTools[checkbox.dataset.tool!] = checkbox.checked;
+  });
+  currentSettings = await claude.saveSettings({ defaultTools });
+}
+
+// Render the custom style list
+function renderCustomStyles() {
+  const styles = currentSettings?.customStyles || [];
+  customStyleList.innerHTML = '';
+
+  if (styles.length === 0) {
+    const empty = document.createElement('div');
+    empty.className = 'custom-style-empty';
+    empty.textContent = 'No custom styles yet. Custom styles appear in the style picker next to the model selector.';
+    customStyleList.appendChild(empty);
+    return;
+  }
+
+  for (const style of styles) {
+    const item = document.createElement('div');
+    item.className = 'custom-style-item';
+
+    const info = document.createElement('div');
+    info.className = 'setting-info';
+    const name = document.createElement('label');
+    name.textContent = style.name;
+    const summary = document.createElement('span');
+    summary.className = 'setting-description';
+    summary.textContent = style.summary;
+    info.append(name, summary);
+
+    const remove = document.createElement('button');
+    remove.className = 'setting-button secondary';
+    remove.textContent = 'Delete';
+    remove.addEventListener('click', () => deleteCustomStyle(style.key));
+
+    item.append(info, remove);
+    customStyleList.appendChild(item);
+  }
+}
+
+// Save a new custom style from the form
+async function addCustomStyle() {
+  if (!currentSettings) return;
+
+  const name = customStyleName.value.trim();
+  const prompt = customStylePrompt.value.trim();
+  if (!name || !prompt) {
+    customStyleError.textContent = 'Give the style a name and instructions';
+    return;
+  }
+  if (currentSettings.customStyles.some(s => s.name.toLowerCase() === name.toLowerCase())) {
+    customStyleError.textContent = 'A style with that name already exists';
+    return;
+  }
+
+  const style: CustomStyle = {
+    type: 'custom',
+    key: `custom_${crypto.randomUUID()}`,
+    name,
+    prompt,
+    summary: prompt.length > 80 ? prompt.slice(0, 80) + '…' : prompt
+  };
+
+  customStyleError.textContent = '';
+  currentSettings = await claude.saveSettings({ customStyles: [...currentSettings.customStyles, style] });
+  customStyleName.value = '';
+  customStylePrompt.value = '';
+  renderCustomStyles();
+}
+
+// Remove a custom style
+async function deleteCustomStyle(key: string) {
+  if (!currentSettings) return;
+
+  currentSettings = await claude.saveSettings({
+    customStyles: currentSettings.customStyles.filter(s => s.key !== key)
+  });
+  renderCustomStyles();
+}
+
 // Stop recording and save if we have a valid keybind
 function stopRecording(recorder: KeybindRecorder, save: boolean) {
   if (!recorder.isRecording) return;
@@ -217,5 +655,54 @@ persistHistoryCheckbox.addEventListener('change', () => {
   savePersistHistory(persistHistoryCheckbox.checked);
 });
 
+// Network inspector
+networkInspectorCheckbox.addEventListener('change', () => {
+  saveNetworkInspector(networkInspectorCheckbox.checked);
+});
+openNetworkInspectorButton.addEventListener('click', () => claude.openNetworkInspector());
+
+// Stream recording and replay
+recordStreamsCheckbox.addEventListener('change', () => {
+  saveRecordStreams(recordStreamsCheckbox.checked);
+});
+// Windows may have opened or closed since
+window.addEventListener('focus', loadReplayWindows);
+replayButton.addEventListener('click', replayStream);
+
+// Network
+[proxyModeSelect, proxyPacUrlInput, proxyRulesInput, proxyBypassInput].forEach(field => {
+  field.addEventListener('change', () => saveNetworkSettings());
+});
+proxyCredentialsSave.addEventListener('click', () => saveProxyCredentials(false));
+proxyCredentialsClear.addEventListener('click', () => saveProxyCredentials(true));
+caBundleChoose.addEventListener('click', chooseCABundle);
+caBundleClear.addEventListener('click', () => saveNetworkSettings(''));
+networkTestButton.addEventListener('click', runConnectionTest);
+
+// Backend profile select
+backendProfileSelect.addEventListener('change', () => {
+  saveBackendProfile(backendProfileSelect.value);
+});
+
+// Default tool toggles
+toolCheckboxes.forEach(checkbox => {
+  checkbox.addEventListener('change', saveDefaultTools);
+});
+
+// Language and time zone
+localeSelect.addEventListener('change', () => saveRegion('locale', localeSelect.value));
+timezoneSelect.addEventListener('change', () => saveRegion('timezone', timezoneSelect.value));
+
+// Image preprocessing
+imageProcessingCheckbox.addEventListener('change', saveImageSettings);
+imageMaxDimensionSelect.addEventListener('change', saveImageSettings);
+imageQualityInput.addEventListener('input', () => {
+  imageQualityValue.textContent = `${imageQualityInput.value}%`;
+});
+imageQualityInput.addEventListener('change', saveImageSettings);
+
+// Custom styles
+customStyleAdd.addEventListener('click', addCustomStyle);
+
 // Load settings on page load
 window.addEventListener('load', loadSettings);
@@ -1,4 +1,8 @@
 import { parseMarkdown } from './markdown.js';
+import { createQuotaBanner, describeUsageLimit } from './quota.js';
+import { describeToolInput } from './tool-input.js';
+import { findToolCall } from '../streaming/tool-pairing.js';
+import type { QuotaState, UsageLimit } from '../types';
 
 // Use any for window.claude - it's typed in preload but we don't need strict types here
 const claude = (window as any).claude;
@@ -7,6 +11,8 @@ interface StepData {
   type: string;
   el: HTMLElement;
   name?: string;
+  toolUseId?: string;
+  done?: boolean;
 }
 
 interface Message {
@@ -21,6 +27,7 @@ const newChatBtn = document.getElementById('new-chat-btn') as HTMLButtonElement;
 const inputRow = document.getElementById('input-row');
 const messagesArea = document.getElementById('messages-area');
 const container = document.getElementById('container');
+const quotaBanner = document.getElementById('quota-banner') as HTMLElement;
 
 // State
 let isLoading = false;
@@ -54,6 +61,15 @@ function escapeHtml(text: string): string {
   return div.innerHTML;
 }
 
+// Human-readable text for a failed request
+function describeApiError(error: { kind: string; status?: number; message: string; usageLimit?: UsageLimit }): string {
+  if (error.kind === 'rate_limited' && error.usageLimit) return describeUsageLimit(error.usageLimit) || 'You\'ve reached your message limit.';
+  if (error.kind === 'rate_limited') return 'Rate limited by the server. Try again shortly.';
+  if (error.kind === 'server') return error.status === 529 ? 'Claude is overloaded right now' : `The server had a problem (${error.status})`;
+  if (error.kind === 'network') return `Network error: ${error.message}`;
+  return error.message;
+}
+
 function updateWindowSize() {
   if (!container) return;
   const containerHeight = container.offsetHeight;
@@ -95,6 +111,17 @@ function renderHistoryMessages(messages: Message[]) {
   updateWindowSize();
 }
 
+const updateQuotaBanner = createQuotaBanner([quotaBanner], updateWindowSize);
+
+async function loadQuota() {
+  try {
+    const state: QuotaState | null = await claude.getQuota();
+    updateQuotaBanner(state?.limit || null);
+  } catch (e) {
+    console.warn('Failed to load quota:', e);
+  }
+}
+
 // Load history and draft on startup
 async function loadHistory() {
   try {
@@ -234,7 +261,16 @@ async function sendMessage() {
   sendBtn.classList.remove('visible');
 
   try {
-    await claude.spotlightSend(message);
+    const result = await claude.spotlightSend(message);
+    // A reply that started and then failed has already been finished by onSpotlightComplete
+    if (result?.error && isLoading) {
+      if (currentResponseEl) {
+        currentResponseEl.textContent = 'Error: ' + describeApiError(result.error);
+      }
+      isLoading = false;
+      sendBtn.disabled = false;
+      updateWindowSize();
+    }
   } catch (err: any) {
     if (currentResponseEl) {
       currentResponseEl.textContent = 'Error: ' + (err.message || 'Failed to get response');
@@ -252,10 +288,30 @@ claude.onSpotlightStream((data: any) => {
   }
 });
 
+claude.onQuotaChanged((state: QuotaState) => updateQuotaBanner(state.limit));
+
+claude.onSpotlightRetry((data: any) => {
+  if (currentResponseEl) {
+    const seconds = Math.ceil(data.delayMs / 1000);
+    currentResponseEl.innerHTML = `<div class="retry-notice">Retrying in ${seconds}s… (attempt ${data.attempt} of ${data.maxAttempts})</div>`;
+    updateWindowSize();
+  }
+});
+
 claude.onSpotlightComplete((data: any) => {
   if (currentResponseEl) {
     currentResponseEl.innerHTML = parseMarkdown(data.fullText);
+    if (data.endReason === 'truncated') {
+      currentResponseEl.insertAdjacentHTML('beforeend', '<div class="stream-end-notice">The response was cut off before it finished.</div>');
+    } else if (data.endReason === 'errored') {
+      currentResponseEl.insertAdjacentHTML('beforeend', `<div class="stream-end-notice error">${escapeHtml(data.error || 'Something went wrong')}. The response is incomplete.</div>`);
+    }
   }
+  // Nothing more is coming for steps that were still running
+  if (currentThinkingStep) markStepComplete(currentThinkingStep);
+  steps.filter(step => step.type === 'tool' && !step.done).forEach(step => markStepComplete(step.el));
+  currentThinkingStep = null;
+  currentToolStep = null;
   isLoading = false;
   sendBtn.disabled = false;
   updateWindowSize();
@@ -292,23 +348,46 @@ claude.onSpotlightTool((data: any) => {
     const label = data.message || toolLabels[data.toolName] || `Using ${data.toolName}`;
     currentToolStep = createStepItem('tool', label, true);
     currentStepsContainer?.appendChild(currentToolStep);
-    steps.push({ type: 'tool', el: currentToolStep, name: data.toolName });
+    steps.push({ type: 'tool', el: currentToolStep, name: data.toolName, toolUseId: data.toolUseId });
     updateWindowSize();
   }
 });
 
+claude.onSpotlightToolInput((data: any) => {
+  const step = data.toolUseId
+    ? steps.find(s => s.type === 'tool' && s.toolUseId === data.toolUseId)
+    : steps.find(s => s.el === currentToolStep);
+  const detail = describeToolInput(data.toolName, data.input);
+  if (!step || !detail) return;
+
+  let detailEl = step.el.querySelector('.step-detail');
+  if (!detailEl) {
+    detailEl = document.createElement('span');
+    detailEl.className = 'step-detail';
+    step.el.querySelector('.step-label')?.after(detailEl);
+  }
+  detailEl.textContent = detail;
+});
+
 claude.onSpotlightToolResult((data: any) => {
-  if (currentToolStep) {
+  // Parallel calls finish in any order, so match the result to its call
+  const step = findToolCall(steps, s => ({
+    toolUseId: s.toolUseId,
+    name: s.name,
+    answered: s.type !== 'tool' || !!s.done
+  }), data.toolUseId, data.toolName);
+  if (step && !step.done) {
+    step.done = true;
     const label = toolLabels[data.toolName] || `Used ${data.toolName}`;
-    markStepComplete(currentToolStep, label);
+    markStepComplete(step.el, label);
     if (data.result) {
       const resultText = typeof data.result === 'string' ? data.result : JSON.stringify(data.result, null, 2);
-      updateStepContent(currentToolStep, resultText.substring(0, 500));
+      updateStepContent(step.el, resultText.substring(0, 500));
     }
     if (data.isError) {
-      currentToolStep.classList.add('error');
+      step.el.classList.add('error');
     }
-    currentToolStep = null;
+    if (step.el === currentToolStep) currentToolStep = null;
     updateWindowSize();
   }
 });
@@ -376,6 +455,7 @@ document.addEventListener('click', async (e) => {
 window.addEventListener('load', () => {
   input.focus();
   loadHistory();
+  loadQuota();
 });
 
 // Clean up on close
@@ -0,0 +1,94 @@
+import type { InlineAttachment } from '../types';
+
+// Text files are read here and sent inline with their content (completion
+// `attachments[]`) instead of going through the upload endpoint.
+
+// Largest file sent inline; bigger ones upload like any other file
+export const MAX_INLINE_TEXT_SIZE = 1024 * 1024;
+
+// Checked before the MIME type, which is often empty or wrong for source
+// files (.ts reports as video/mp2t)
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'rst', 'log', 'csv', 'tsv', 'json', 'jsonl', 'ndjson',
+  'xml', 'yaml', 'yml', 'toml', 'ini', 'cfg', 'conf', 'env', 'properties',
+  'html', 'htm', 'css', 'scss', 'sass', 'less', 'svg',
+  'js', 'mjs', 'cjs', 'jsx', 'ts', 'mts', 'cts', 'tsx', 'vue', 'svelte',
+  'py', 'rb', 'php', 'pl', 'lua', 'r', 'jl', 'go', 'rs', 'java', 'kt', 'kts',
+  'scala', 'groovy', 'gradle', 'swift', 'm', 'mm', 'c', 'h', 'cc', 'cpp',
+  'cxx', 'hpp', 'hh', 'cs', 'fs', 'vb', 'dart', 'ex', 'exs', 'erl', 'hs',
+  'clj', 'elm', 'ml', 'zig', 'nim', 'sql', 'graphql', 'gql', 'proto',
+  'sh', 'bash', 'zsh', 'fish', 'ps1', 'bat', 'cmd', 'tf', 'hcl', 'nix',
+  'diff', 'patch', 'tex', 'bib', 'srt', 'vtt'
+]);
+
+// Extensionless files that are always text
+const TEXT_FILENAMES = new Set([
+  'makefile', 'dockerfile', 'gemfile', 'rakefile', 'procfile', 'license',
+  'readme', '.gitignore', '.dockerignore', '.editorconfig', '.npmrc'
+]);
+
+const TEXT_MIME_TYPES = [
+  'application/json', 'application/ld+json', 'application/xml',
+  'application/javascript', 'application/typescript', 'application/x-sh',
+  'application/sql', 'application/yaml', 'application/x-yaml', 'application/toml'
+];
+
+export function isTextFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  const dot = name.lastIndexOf('.');
+  if (dot > 0 && TEXT_EXTENSIONS.has(name.slice(dot + 1))) return true;
+  if (TEXT_FILENAMES.has(name)) return true;
+  return file.type.startsWith('text/') || TEXT_MIME_TYPES.includes(file.type);
+}
+
+// UTF-16 without a BOM shows up as NULs in every other byte
+function guessUtf16(bytes: Uint8Array): 'utf-16le' | 'utf-16be' | null {
+  const sample = bytes.subarray(0, Math.min(bytes.length, 4096) & ~1);
+  if (sample.length < 2) return null;
+  let evenNuls = 0;
+  let oddNuls = 0;
+  for (let i = 0; i < sample.length; i += 2) {
+    if (sample[i] === 0) evenNuls++;
+    if (sample[i + 1] === 0) oddNuls++;
+  }
+  const pairs = sample.length / 2;
+  if (oddNuls > pairs * 0.3 && evenNuls === 0) return 'utf-16le';
+  if (evenNuls > pairs * 0.3 && oddNuls === 0) return 'utf-16be';
+  return null;
+}
+
+// Decode text, detecting the encoding from a BOM, UTF-16 byte patterns,
+// strict UTF-8 and finally Windows-1252. Null when the bytes look binary.
+export function decodeText(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+
+  const utf16 = guessUtf16(bytes);
+  if (utf16) return new TextDecoder(utf16).decode(bytes);
+  if (bytes.includes(0)) return null;
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+}
+
+// Read a text file as an inline attachment. Null when it's too large or
+// turns out to be binary, so the caller can upload it instead.
+export async function readTextAttachment(file: File): Promise<InlineAttachment | null> {
+  if (file.size > MAX_INLINE_TEXT_SIZE) return null;
+
+  const content = decodeText(new Uint8Array(await file.arrayBuffer()));
+  if (content === null) return null;
+
+  return {
+    file_name: file.name,
+    file_type: file.type.startsWith('text/') || TEXT_MIME_TYPES.includes(file.type) ? file.type : 'text/plain',
+    file_size: file.size,
+    extracted_content: content
+  };
+}
@@ -0,0 +1,34 @@
+// Tool input details, shared by the main window and Spotlight
+
+import { TOOL_INPUT_FIELDS } from '../streaming/tool-input-preview.js';
+
+const ARTIFACT_COMMAND_LABELS: Record<string, string> = {
+  create: 'Creating artifact',
+  update: 'Editing artifact',
+  rewrite: 'Rewriting artifact'
+};
+
+// Tool input arrives as a parsed preview while streaming and as a JSON string once done
+function inputFields(input: unknown): Record<string, unknown> | null {
+  let value = input;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  return value && typeof value === 'object' ? value as Record<string, unknown> : null;
+}
+
+export function describeToolInput(toolName: string, input: unknown): string | null {
+  const field = TOOL_INPUT_FIELDS[toolName];
+  const detail = field ? inputFields(input)?.[field] : undefined;
+  return typeof detail === 'string' && detail ? detail : null;
+}
+
+// "Editing artifact" for an artifacts call, once its command has streamed in
+export function artifactCommandLabel(input: unknown): string | null {
+  const command = inputFields(input)?.command;
+  return typeof command === 'string' ? ARTIFACT_COMMAND_LABELS[command] || null : null;
+}
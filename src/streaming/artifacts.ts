@@ -0,0 +1,146 @@
+import type { Artifact, ArtifactCommand, ArtifactOperation, ChatMessage, ConversationTree } from '../types';
+
+// Artifacts aren't stored whole: each `artifacts` tool call creates one or
+// edits the content left by the previous call. Replaying the calls along a
+// branch of the conversation gives every version of every artifact.
+
+export const ARTIFACT_TOOL = 'artifacts';
+
+const COMMANDS: ArtifactCommand[] = ['create', 'update', 'rewrite'];
+
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  python: 'py',
+  javascript: 'js',
+  typescript: 'ts',
+  jsx: 'jsx',
+  tsx: 'tsx',
+  html: 'html',
+  css: 'css',
+  json: 'json',
+  bash: 'sh',
+  shell: 'sh',
+  sql: 'sql',
+  java: 'java',
+  c: 'c',
+  cpp: 'cpp',
+  csharp: 'cs',
+  go: 'go',
+  rust: 'rs',
+  ruby: 'rb',
+  php: 'php',
+  swift: 'swift',
+  kotlin: 'kt',
+  yaml: 'yaml',
+  markdown: 'md'
+};
+
+const TYPE_EXTENSIONS: Record<string, string> = {
+  'text/markdown': 'md',
+  'text/html': 'html',
+  'image/svg+xml': 'svg',
+  'application/vnd.ant.mermaid': 'mmd',
+  'application/vnd.ant.react': 'jsx'
+};
+
+// Read an artifacts tool input, parsed or as JSON text; null if it isn't a
+// create, update or rewrite
+export function parseArtifactOperation(input: unknown): ArtifactOperation | null {
+  let value = input;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const fields = value as Record<string, unknown>;
+  const text = (key: string) => typeof fields[key] === 'string' ? fields[key] as string : undefined;
+  const command = text('command') as ArtifactCommand | undefined;
+  const id = text('id');
+  if (!command || !COMMANDS.includes(command) || !id) return null;
+
+  return {
+    command,
+    id,
+    type: text('type'),
+    title: text('title'),
+    language: text('language'),
+    content: text('content'),
+    oldStr: text('old_str'),
+    newStr: text('new_str')
+  };
+}
+
+// Add the version an operation produces. Returns the artifact, or null for
+// an update to an artifact that doesn't exist.
+export function applyArtifactOperation(
+  artifacts: Map<string, Artifact>,
+  operation: ArtifactOperation,
+  source: { messageUuid?: string; toolUseId?: string } = {}
+): Artifact | null {
+  let artifact = artifacts.get(operation.id);
+  if (!artifact) {
+    if (operation.command === 'update') return null;
+    artifact = { id: operation.id, type: operation.type || 'text/plain', versions: [] };
+    artifacts.set(operation.id, artifact);
+  }
+  if (operation.type) artifact.type = operation.type;
+  if (operation.language) artifact.language = operation.language;
+
+  const previous = artifact.versions[artifact.versions.length - 1];
+  let content = operation.content ?? '';
+  let failed = false;
+  if (operation.command === 'update') {
+    // Replaces the first match, like the tool does
+    const current = previous?.content ?? '';
+    const at = operation.oldStr ? current.indexOf(operation.oldStr) : -1;
+    failed = at === -1;
+    content = failed ? current : current.slice(0, at) + (operation.newStr ?? '') + current.slice(at + operation.oldStr!.length);
+  }
+
+  artifact.versions.push({
+    command: operation.command,
+    content,
+    title: operation.title || previous?.title || 'Untitled',
+    ...source,
+    ...(failed ? { failed } : {})
+  });
+  return artifact;
+}
+
+// Messages from the root to the current leaf. Falls back to the stored order
+// when there's no leaf to follow.
+export function currentBranch(tree: ConversationTree): ChatMessage[] {
+  const byUuid = new Map(tree.chat_messages.map(message => [message.uuid, message]));
+  const branch: ChatMessage[] = [];
+  let message = tree.current_leaf_message_uuid ? byUuid.get(tree.current_leaf_message_uuid) : undefined;
+  while (message && !branch.includes(message)) {
+    branch.push(message);
+    message = message.parent_message_uuid ? byUuid.get(message.parent_message_uuid) : undefined;
+  }
+  return branch.length > 0 ? branch.reverse() : tree.chat_messages;
+}
+
+// Every artifact on the current branch, with all its versions
+export function buildArtifacts(tree: ConversationTree): Map<string, Artifact> {
+  const artifacts = new Map<string, Artifact>();
+  for (const message of currentBranch(tree)) {
+    if (message.sender !== 'assistant') continue;
+    for (const block of message.content || []) {
+      if (block.type !== 'tool_use' || block.name !== ARTIFACT_TOOL) continue;
+      const operation = parseArtifactOperation(block.input);
+      if (operation) applyArtifactOperation(artifacts, operation, { messageUuid: message.uuid, toolUseId: block.id });
+    }
+  }
+  return artifacts;
+}
+
+// File extension for saving an artifact
+export function artifactExtension(artifact: Artifact): string {
+  if (artifact.type === 'application/vnd.ant.code') {
+    return LANGUAGE_EXTENSIONS[artifact.language?.toLowerCase() || ''] || 'txt';
+  }
+  return TYPE_EXTENSIONS[artifact.type] || 'txt';
+}
@@ -1,4 +1,9 @@
-import type { ContentBlock, Citation, Step } from '../types';
+import type { ContentBlock, Citation, Step, UsageLimit, UsageLimitStatus, StreamEndReason, StreamError, ArtifactOperation } from '../types';
+import type { SSEEvent } from './sse';
+import { PartialJSONParser } from './partial-json';
+import { ARTIFACT_TOOL, parseArtifactOperation } from './artifacts';
+import { findToolCall } from './tool-pairing';
+import { toolInputPreview } from './tool-input-preview';
 
 // Event callbacks for stream processing
 export interface StreamCallbacks {
@@ -7,13 +12,25 @@ export interface StreamCallbacks {
   onThinkingStart?: (blockIndex: number) => void;
   onThinkingDelta?: (thinking: string, blockIndex: number) => void;
   onThinkingStop?: (thinkingText: string, summaries: Array<{ summary: string } | string>, blockIndex: number) => void;
-  onToolStart?: (toolName: string, message: string, blockIndex: number) => void;
-  onToolStop?: (toolName: string, input: string, blockIndex: number) => void;
-  onToolResult?: (toolName: string, result: unknown, isError: boolean, blockIndex: number) => void;
+  // toolUseId pairs a call with its result (parallel calls can share a name)
+  onToolStart?: (toolName: string, message: string, blockIndex: number, toolUseId?: string) => void;
+  // The fields of the input the UI shows (see toolInputPreview), parsed from
+  // the JSON received so far. Only called when they change, so a large input
+  // isn't sent again on every delta.
+  onToolInputDelta?: (toolName: string, input: unknown, blockIndex: number, toolUseId?: string) => void;
+  onToolStop?: (toolName: string, input: string, blockIndex: number, toolUseId?: string) => void;
+  onToolResult?: (toolName: string, result: unknown, isError: boolean, blockIndex: number, toolUseId?: string) => void;
+  // An artifacts tool call finished with a create, update or rewrite
+  onArtifact?: (operation: ArtifactOperation, blockIndex: number, toolUseId?: string) => void;
   onCitation?: (citation: Citation, blockIndex: number) => void;
   onToolApproval?: (toolName: string, approvalKey: string, input: unknown) => void;
   onCompaction?: (status: string, message?: string) => void;
+  onUsageLimit?: (limit: UsageLimit) => void;
   onComplete?: (fullText: string, steps: Step[], messageUuid: string) => void;
+  // An `error` event, or an event that isn't valid JSON (the stream goes on)
+  onError?: (error: StreamError) => void;
+  // Fired once by endStream, after onComplete when there was one
+  onStreamEnd?: (reason: StreamEndReason, error?: StreamError) => void;
 }
 
 // Stream parser state
@@ -22,6 +39,15 @@ export interface StreamState {
   lastMessageUuid: string;
   contentBlocks: Map<number, ContentBlock>;
   pendingCitations: Map<string, Citation>;
+  // Tool inputs by block index while they stream, with the last preview sent
+  toolInputs: Map<number, { parser: PartialJSONParser; preview: string }>;
+  // Any event arrived
+  received: boolean;
+  // message_delta with a stop_reason arrived
+  completed: boolean;
+  // First `error` event
+  error: StreamError | null;
+  endReason: StreamEndReason | null;
 }
 
 // Create initial state for a new stream
@@ -30,7 +56,12 @@ export function createStreamState(): StreamState {
     fullResponse: '',
     lastMessageUuid: '',
     contentBlocks: new Map(),
-    pendingCitations: new Map()
+    pendingCitations: new Map(),
+    toolInputs: new Map(),
+    received: false,
+    completed: false,
+    error: null,
+    endReason: null
   };
 }
 
@@ -72,10 +103,62 @@ function parseDisplayContent(displayContent: unknown): unknown {
   return null;
 }
 
+const USAGE_LIMIT_STATUSES: UsageLimitStatus[] = ['within_limit', 'approaching_limit', 'exceeded_limit'];
+
+// Parse a message_limit payload ({ type, resetsAt, remaining, perModelLimit }).
+// resetsAt comes in epoch seconds; returns null for anything unrecognized.
+export function parseUsageLimit(raw: unknown): UsageLimit | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const data = raw as Record<string, unknown>;
+  const status = data.type as UsageLimitStatus;
+  if (!USAGE_LIMIT_STATUSES.includes(status)) return null;
+
+  const limit: UsageLimit = { status };
+  if (typeof data.remaining === 'number') limit.remaining = data.remaining;
+  if (typeof data.resetsAt === 'number' && data.resetsAt > 0) {
+    limit.resetsAt = data.resetsAt < 1e12 ? data.resetsAt * 1000 : data.resetsAt;
+  }
+  if (typeof data.perModelLimit === 'boolean') limit.perModelLimit = data.perModelLimit;
+  return limit;
+}
+
+// Usage-limit errors carry the message_limit payload as JSON in their
+// message; anything else is a plain rate limit
+function parseRateLimitMessage(message: unknown): UsageLimit | null {
+  if (typeof message !== 'string') return null;
+  try {
+    return parseUsageLimit(JSON.parse(message));
+  } catch {
+    return null;
+  }
+}
+
+// Usage limit from a 429 response body ({ error: { type: 'rate_limit_error', message } })
+export function parseRateLimitBody(body: string): UsageLimit | undefined {
+  try {
+    const error = (JSON.parse(body) as { error?: { type?: string; message?: unknown } }).error;
+    return (error?.type === 'rate_limit_error' && parseRateLimitMessage(error.message)) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Error messages are sometimes JSON (rate limits carry the limit details)
+function describeStreamError(message: unknown): string {
+  if (typeof message !== 'string' || !message) return 'The server reported an error';
+  try {
+    const parsed = JSON.parse(message);
+    if (typeof parsed?.message === 'string') return parsed.message;
+    if (parsed?.type === 'exceeded_limit') return 'You\'ve reached your message limit';
+  } catch {
+    // Plain text
+  }
+  return message;
+}
+
 // Build steps array from content blocks for timeline display
 export function buildSteps(contentBlocks: Map<number, ContentBlock>): Step[] {
   const steps: Step[] = [];
-  let pendingToolUse: Step | null = null;
 
   const sortedBlocks = Array.from(contentBlocks.entries())
     .sort((a, b) => a[0] - b[0]);
@@ -95,18 +178,22 @@ export function buildSteps(contentBlocks: Map<number, ContentBlock>): Step[] {
         stop_timestamp: block.stop_timestamp
       });
     } else if (block.type === 'tool_use' && (block.name || block.toolName)) {
-      pendingToolUse = {
+      // Steps stay in call order; results are filled in as they're matched
+      const step: Step = {
         type: 'tool',
         index: idx,
+        toolUseId: block.id,
         toolName: block.name || block.toolName,
         toolInput: block.buffered_input || block.partial_json || block.toolInput,
         toolMessage: block.toolMessage
       };
-    } else if (block.type === 'tool_result' && pendingToolUse) {
-      pendingToolUse.toolResult = block.toolResult || block.content;
-      pendingToolUse.isError = block.is_error || block.isError;
-      steps.push(pendingToolUse);
-      pendingToolUse = null;
+      steps.push(step);
+    } else if (block.type === 'tool_result') {
+      const step = findToolCall(steps, describeToolStep, block.tool_use_id, block.toolName || block.name);
+      if (step) {
+        step.toolResult = block.toolResult || block.content;
+        step.isError = block.is_error || block.isError;
+      }
     } else if (block.type === 'text' && block.text) {
       steps.push({
         type: 'text',
@@ -118,35 +205,69 @@ export function buildSteps(contentBlocks: Map<number, ContentBlock>): Step[] {
     }
   }
 
-  if (pendingToolUse) {
-    steps.push(pendingToolUse);
-  }
-
   return steps;
 }
 
-// Process a single SSE chunk
-export function processSSEChunk(
-  chunk: string,
+// Only tool steps can take a result
+function describeToolStep(step: Step) {
+  return {
+    toolUseId: step.toolUseId,
+    name: step.toolName,
+    answered: step.type !== 'tool' || step.toolResult !== undefined || step.isError !== undefined
+  };
+}
+
+// Process one decoded server-sent event
+export function processSSEEvent(
+  event: SSEEvent,
   state: StreamState,
   callbacks: StreamCallbacks
 ): void {
-  const lines = chunk.split('\n');
+  let data: unknown;
+  try {
+    data = JSON.parse(event.data);
+  } catch {
+    data = null;
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    callbacks.onError?.({ type: 'invalid_event', message: `Could not parse ${event.event} event: ${event.data.slice(0, 200)}` });
+    return;
+  }
 
-  for (const line of lines) {
-    if (!line.startsWith('data: ')) continue;
+  const payload = data as Record<string, unknown>;
+  // Fall back to the event name for payloads that don't carry their type
+  if (typeof payload.type !== 'string' && event.event !== 'message') {
+    payload.type = event.event;
+  }
+  state.received = true;
+  processEventData(payload, state, callbacks);
+}
 
-    try {
-      const data = JSON.parse(line.slice(6));
-      processSSEEvent(data, state, callbacks);
-    } catch {
-      // Not valid JSON, skip
-    }
+// Report how the stream ended, once. Call when the response is over, with
+// `aborted` for a stop or `error` for a connection lost mid-stream.
+export function endStream(
+  state: StreamState,
+  callbacks: StreamCallbacks,
+  outcome: { aborted?: boolean; error?: StreamError } = {}
+): StreamEndReason {
+  if (state.endReason) return state.endReason;
+
+  if (outcome.error && !state.error) {
+    state.error = outcome.error;
+    callbacks.onError?.(outcome.error);
   }
+  // A reply that got its stop_reason is complete however the connection ended
+  const reason: StreamEndReason = state.completed ? 'completed'
+    : outcome.aborted ? 'aborted'
+    : state.error ? 'errored'
+    : 'truncated';
+  state.endReason = reason;
+  callbacks.onStreamEnd?.(reason, state.error || undefined);
+  return reason;
 }
 
-// Process a single SSE event
-function processSSEEvent(
+// Apply an event's payload to the stream state
+function processEventData(
   data: Record<string, unknown>,
   state: StreamState,
   callbacks: StreamCallbacks
@@ -176,17 +297,18 @@ function processSSEEvent(
     if (blockType === 'thinking') {
       block.thinking = '';
       block.summaries = [];
-      block.start_timestamp = new Date().toISOString();
+      block.start_timestamp = (contentBlock?.start_timestamp as string) || new Date().toISOString();
       block.thinkingText = '';
       callbacks.onThinkingStart?.(blockIndex);
     } else if (blockType === 'tool_use') {
+      block.id = contentBlock?.id as string | undefined;
       block.name = (contentBlock?.name as string) || 'unknown';
       block.partial_json = '';
       block.approval_key = contentBlock?.approval_key as string | undefined;
       block.toolName = block.name;
       block.toolInput = '';
       block.toolMessage = (contentBlock?.message as string) || '';
-      callbacks.onToolStart?.(block.name, block.toolMessage, blockIndex);
+      callbacks.onToolStart?.(block.name, block.toolMessage, blockIndex, block.id);
     } else if (blockType === 'tool_result') {
       block.tool_use_id = contentBlock?.tool_use_id as string | undefined;
       block.is_error = (contentBlock?.is_error as boolean) || false;
@@ -196,7 +318,7 @@ function processSSEEvent(
       block.toolResult = parseDisplayContent(contentBlock?.display_content);
 
       if (block.toolResult) {
-        callbacks.onToolResult?.(block.toolName || '', block.toolResult, block.is_error || false, blockIndex);
+        callbacks.onToolResult?.(block.toolName || '', block.toolResult, block.is_error || false, blockIndex, block.tool_use_id);
       }
     } else if (blockType === 'text') {
       block.text = '';
@@ -220,12 +342,18 @@ function processSSEEvent(
         blockIndex
       );
     } else if (block?.type === 'tool_use') {
+      state.toolInputs.delete(blockIndex);
       block.buffered_input = (data.buffered_input as string) || block.partial_json || '{}';
       callbacks.onToolStop?.(
         block.name || block.toolName || '',
         block.buffered_input || block.toolInput || '',
-        blockIndex
+        blockIndex,
+        block.id
       );
+      if (block.name === ARTIFACT_TOOL) {
+        const operation = parseArtifactOperation(block.buffered_input);
+        if (operation) callbacks.onArtifact?.(operation, blockIndex, block.id);
+      }
     }
   }
 
@@ -298,6 +426,19 @@ function processSSEEvent(
       if (deltaType === 'input_json_delta' && delta?.partial_json) {
         block.partial_json = (block.partial_json || '') + (delta.partial_json as string);
         block.toolInput = block.partial_json;
+
+        let toolInput = state.toolInputs.get(blockIndex);
+        if (!toolInput) {
+          toolInput = { parser: new PartialJSONParser(), preview: '' };
+          state.toolInputs.set(blockIndex, toolInput);
+        }
+        const toolName = block.name || block.toolName || '';
+        const preview = toolInputPreview(toolName, toolInput.parser.push(delta.partial_json as string));
+        const previewKey = preview ? JSON.stringify(preview) : '';
+        if (preview && previewKey !== toolInput.preview) {
+          toolInput.preview = previewKey;
+          callbacks.onToolInputDelta?.(toolName, preview, blockIndex, block.id);
+        }
       }
     }
 
@@ -322,7 +463,7 @@ function processSSEEvent(
           } else {
             block.toolResult = { json_block: parsed };
           }
-          callbacks.onToolResult?.(block.toolName || '', block.toolResult, block.is_error || false, blockIndex);
+          callbacks.onToolResult?.(block.toolName || '', block.toolResult, block.is_error || false, blockIndex, block.tool_use_id);
         } catch {
           block.content = [{ type: 'text', text: rawJson }];
         }
@@ -336,7 +477,7 @@ function processSSEEvent(
     const block = contentBlocks.get(blockIndex);
     if (block && data.message) {
       block.toolMessage = data.message as string;
-      callbacks.onToolStart?.(block.name || block.toolName || '', block.toolMessage, blockIndex);
+      callbacks.onToolStart?.(block.name || block.toolName || '', block.toolMessage, blockIndex, block.id);
     }
   }
 
@@ -364,9 +505,31 @@ function processSSEEvent(
     callbacks.onCompaction?.(data.status as string, data.message as string | undefined);
   }
 
+  // message_limit
+  if (data.type === 'message_limit') {
+    const limit = parseUsageLimit(data.message_limit);
+    if (limit) callbacks.onUsageLimit?.(limit);
+  }
+
+  // error event (a rate limit hit mid-stream also carries the new limit)
+  const streamError = data.error as { type?: string; message?: unknown } | undefined;
+  if (data.type === 'error') {
+    if (streamError?.type === 'rate_limit_error') {
+      const limit = parseRateLimitMessage(streamError.message);
+      if (limit) callbacks.onUsageLimit?.(limit);
+    }
+    const error: StreamError = {
+      type: streamError?.type || 'error',
+      message: describeStreamError(streamError?.message)
+    };
+    state.error = state.error || error;
+    callbacks.onError?.(error);
+  }
+
   // message_delta with stop_reason - message complete
   const messageDelta = data.delta as { stop_reason?: string } | undefined;
   if (data.type === 'message_delta' && messageDelta?.stop_reason) {
+    state.completed = true;
     const steps = buildSteps(contentBlocks);
     pendingCitations.clear();
     callbacks.onComplete?.(state.fullResponse, steps, state.lastMessageUuid);
@@ -0,0 +1,241 @@
+// Incremental, tolerant JSON parser for tool inputs streamed as
+// input_json_delta fragments. Each push only scans the new text and updates
+// a best-effort value in place: unfinished strings and numbers show what has
+// arrived so far, unfinished objects and arrays hold the members completed
+// so far, and a key whose value hasn't started yet is left out.
+
+type Container = Record<string, unknown> | unknown[];
+
+interface Frame {
+  value: Container;
+  // Object: expecting a key, the colon, a value, or a comma/close
+  // Array: expecting a value, or a comma/close
+  expect: 'key' | 'colon' | 'value' | 'comma';
+  key?: string;
+}
+
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+
+export class PartialJSONParser {
+  private root: unknown = undefined;
+  private stack: Frame[] = [];
+  private done = false;
+  private failed = false;
+  // Token in progress
+  private token: 'string' | 'key' | 'number' | 'literal' | null = null;
+  private text = '';
+  // Inside a string: after a backslash, or collecting \u hex digits
+  private escape: string | null = null;
+
+  // Parse the next fragment and return the value so far (undefined until a
+  // value has started; objects and arrays are updated by later pushes).
+  // Input that can't be JSON stops the parser; the value keeps what came
+  // before it.
+  push(chunk: string): unknown {
+    let i = 0;
+    while (i < chunk.length && !this.failed) {
+      if (this.token === 'string' || this.token === 'key') {
+        i = this.readString(chunk, i);
+        continue;
+      }
+      const ch = chunk[i];
+      if (this.token === 'number') {
+        if (/[0-9eE+\-.]/.test(ch)) {
+          this.text += ch;
+          i++;
+          continue;
+        }
+        this.finishNumber();
+        continue;
+      }
+      if (this.token === 'literal') {
+        this.readLiteral(ch);
+        i++;
+        continue;
+      }
+      if (ch !== ' ' && ch !== '\t' && ch !== '\n' && ch !== '\r') this.structural(ch);
+      i++;
+    }
+    // Show the unfinished token
+    if (this.token === 'string') this.assign(this.text);
+    else if (this.token === 'number') this.assignNumber(false);
+    return this.root;
+  }
+
+  private readString(chunk: string, i: number): number {
+    while (i < chunk.length) {
+      if (this.escape !== null) {
+        const ch = chunk[i++];
+        if (this.escape === '') {
+          if (ch === 'u') {
+            this.escape = 'u';
+          } else {
+            this.text += ESCAPES[ch] ?? ch;
+            this.escape = null;
+          }
+        } else {
+          this.escape += ch;
+          if (this.escape.length === 5) {
+            const code = parseInt(this.escape.slice(1), 16);
+            if (Number.isNaN(code)) return this.fail(chunk);
+            this.text += String.fromCharCode(code);
+            this.escape = null;
+          }
+        }
+        continue;
+      }
+      // Copy up to the next quote or backslash in one go
+      let end = i;
+      while (end < chunk.length && chunk[end] !== '"' && chunk[end] !== '\\') end++;
+      this.text += chunk.slice(i, end);
+      if (end === chunk.length) return end;
+      if (chunk[end] === '\\') {
+        this.escape = '';
+        i = end + 1;
+        continue;
+      }
+      this.finishString();
+      return end + 1;
+    }
+    return i;
+  }
+
+  private finishString(): void {
+    const text = this.text;
+    const isKey = this.token === 'key';
+    this.token = null;
+    this.text = '';
+    if (isKey) {
+      const frame = this.stack[this.stack.length - 1];
+      frame.key = text;
+      frame.expect = 'colon';
+    } else {
+      this.assign(text);
+      this.valueDone();
+    }
+  }
+
+  private finishNumber(): void {
+    this.token = null;
+    if (!this.assignNumber(true)) return;
+    this.text = '';
+    this.valueDone();
+  }
+
+  // A number that can't complete (or is only a sign so far) isn't shown
+  private assignNumber(final: boolean): boolean {
+    const number = final ? Number(this.text) : parseFloat(this.text);
+    if (Number.isNaN(number) || (final && !/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(this.text))) {
+      if (final) this.failed = true;
+      return false;
+    }
+    this.assign(number);
+    return true;
+  }
+
+  private readLiteral(ch: string): void {
+    this.text += ch;
+    if (this.text in LITERALS) {
+      this.token = null;
+      this.assign(LITERALS[this.text]);
+      this.text = '';
+      this.valueDone();
+    } else if (!Object.keys(LITERALS).some(literal => literal.startsWith(this.text))) {
+      this.failed = true;
+    }
+  }
+
+  private structural(ch: string): void {
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame) {
+      if (this.done) this.failed = true;
+      else this.startValue(ch);
+      return;
+    }
+
+    const isArray = Array.isArray(frame.value);
+    switch (frame.expect) {
+      case 'key':
+        // Also closes after a trailing comma
+        if (ch === '"') this.token = 'key';
+        else if (ch === '}') this.close();
+        else this.failed = true;
+        break;
+      case 'colon':
+        if (ch === ':') frame.expect = 'value';
+        else this.failed = true;
+        break;
+      case 'value':
+        if (isArray && ch === ']') this.close();
+        else this.startValue(ch);
+        break;
+      case 'comma':
+        if (ch === ',') {
+          frame.expect = isArray ? 'value' : 'key';
+        } else if (ch === (isArray ? ']' : '}')) {
+          this.close();
+        } else {
+          this.failed = true;
+        }
+        break;
+    }
+  }
+
+  private startValue(ch: string): void {
+    if (ch === '{' || ch === '[') {
+      const value: Container = ch === '{' ? {} : [];
+      this.assign(value);
+      this.stack.push({ value, expect: ch === '{' ? 'key' : 'value' });
+    } else if (ch === '"') {
+      this.token = 'string';
+    } else if (ch === '-' || (ch >= '0' && ch <= '9')) {
+      this.token = 'number';
+      this.text = ch;
+    } else if ('tfn'.includes(ch)) {
+      this.token = 'literal';
+      this.text = ch;
+    } else {
+      this.failed = true;
+    }
+  }
+
+  // Set the value in progress in its parent (or as the root)
+  private assign(value: unknown): void {
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame) {
+      this.root = value;
+    } else if (Array.isArray(frame.value)) {
+      // The slot is appended on the first assign and updated after that
+      const values = frame.value;
+      if (frame.key === undefined) {
+        frame.key = String(values.length);
+        values.push(value);
+      } else {
+        values[Number(frame.key)] = value;
+      }
+    } else if (frame.key !== undefined) {
+      frame.value[frame.key] = value;
+    }
+  }
+
+  private valueDone(): void {
+    const frame = this.stack[this.stack.length - 1];
+    if (frame) {
+      frame.expect = 'comma';
+      if (Array.isArray(frame.value)) frame.key = undefined;
+    } else {
+      this.done = true;
+    }
+  }
+
+  private close(): void {
+    this.stack.pop();
+    this.valueDone();
+  }
+
+  private fail(chunk: string): number {
+    this.failed = true;
+    return chunk.length;
+  }
+}
@@ -0,0 +1,145 @@
+import fs from 'fs';
+import path from 'path';
+import { app } from 'electron';
+import type { SSERecordLine } from '../types';
+
+// Opt-in recorder for completion streams. Each response is written as it
+// arrives to its own NDJSON file (header, raw chunks with their timing, end),
+// and a recording can be played back later at real or accelerated speed to
+// reproduce exactly what the parser saw.
+
+export interface SSERecording {
+  write(chunk: Buffer): void;
+  // Only the first call counts
+  end(reason: 'complete' | 'error' | 'aborted', error?: string): void;
+}
+
+let recording = false;
+
+export function isStreamRecording(): boolean {
+  return recording;
+}
+
+export function setStreamRecording(enabled: boolean): void {
+  recording = enabled;
+}
+
+export function getRecordingsDir(): string {
+  return path.join(app.getPath('userData'), 'sse-recordings');
+}
+
+// Start recording a completion response, or null when recording is off
+export function startSSERecording(url: string, conversationId: string, prompt: string): SSERecording | null {
+  if (!recording) return null;
+
+  const dir = getRecordingsDir();
+  const startedAt = new Date();
+  const filePath = path.join(dir, `${startedAt.toISOString().replace(/[:.]/g, '-')}-${conversationId.slice(0, 8)}.ndjson`);
+  let stream: fs.WriteStream;
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    stream = fs.createWriteStream(filePath);
+  } catch (error) {
+    console.warn('[Recording] Could not create recording:', error instanceof Error ? error.message : error);
+    return null;
+  }
+  stream.on('error', (error) => {
+    console.warn('[Recording] Write failed:', error.message);
+  });
+
+  const start = Date.now();
+  // Characters split across chunks are written whole with the later chunk
+  const text = new TextDecoder('utf-8');
+  const writeLine = (line: SSERecordLine) => stream.write(JSON.stringify(line) + '\n');
+  let ended = false;
+
+  writeLine({ type: 'recording', version: 1, startedAt: startedAt.toISOString(), url, conversationId, prompt });
+  console.log('[Recording] Recording stream to', filePath);
+
+  return {
+    write(chunk) {
+      if (ended) return;
+      const data = text.decode(chunk, { stream: true });
+      if (data) writeLine({ type: 'chunk', t: Date.now() - start, data });
+    },
+    end(reason, error) {
+      if (ended) return;
+      ended = true;
+      writeLine({ type: 'end', t: Date.now() - start, reason, ...(error ? { error } : {}) });
+      stream.end();
+    }
+  };
+}
+
+// Read a recording back; throws if the file isn't one
+export function readSSERecording(filePath: string): SSERecordLine[] {
+  const lines = fs.readFileSync(filePath, 'utf-8').split('\n').filter(line => line.trim());
+  const records = lines.map((line, i) => {
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${i + 1} of ${path.basename(filePath)} is not JSON`);
+    }
+    if (i > 0 && !isRecordLine(record)) {
+      throw new Error(`Line ${i + 1} of ${path.basename(filePath)} is not a recorded chunk or end`);
+    }
+    return record as SSERecordLine;
+  });
+  if (!isRecordLine(records[0]) || records[0].type !== 'recording') {
+    throw new Error(`${path.basename(filePath)} is not an SSE recording`);
+  }
+  return records;
+}
+
+// Check a line has the fields playback reads
+function isRecordLine(value: unknown): value is SSERecordLine {
+  if (!value || typeof value !== 'object') return false;
+  const record = value as Record<string, unknown>;
+  switch (record.type) {
+    case 'recording':
+      return typeof record.prompt === 'string';
+    case 'chunk':
+      return typeof record.t === 'number' && typeof record.data === 'string';
+    case 'end':
+      return typeof record.t === 'number' && typeof record.reason === 'string';
+    default:
+      return false;
+  }
+}
+
+// Sleep, waking early if the signal aborts
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+// Feed a recording's chunks to onChunk with their original spacing divided
+// by speed (0 for no delays). Resolves with the number of chunks played.
+export async function replaySSERecording(
+  records: SSERecordLine[],
+  onChunk: (data: string) => void,
+  { speed = 1, signal }: { speed?: number; signal?: AbortSignal } = {}
+): Promise<number> {
+  const start = Date.now();
+  let played = 0;
+
+  for (const record of records) {
+    if (record.type !== 'chunk') continue;
+    if (speed > 0) {
+      const wait = start + record.t / speed - Date.now();
+      if (wait > 0) await delay(wait, signal);
+    }
+    if (signal?.aborted) break;
+    onChunk(record.data);
+    played++;
+  }
+  return played;
+}
@@ -0,0 +1,109 @@
+// Incremental text/event-stream decoder following the WHATWG server-sent
+// events spec: CR, LF and CRLF line endings (also split across chunks), UTF-8
+// split across chunks, comments, multi-line data, event names, ids and retry.
+
+export interface SSEEvent {
+  // Event name; "message" when the stream didn't give one
+  event: string;
+  // Data lines joined with \n
+  data: string;
+  // Last event id the stream set, carried over to later events
+  id?: string;
+  // Reconnection delay in ms, on the first event after the stream set it
+  retry?: number;
+}
+
+export class SSEDecoder {
+  private text = new TextDecoder('utf-8');
+  private buffer = '';
+  private started = false;
+  private eventName = '';
+  private data: string[] = [];
+  private lastEventId: string | undefined;
+  private retry: number | undefined;
+
+  // Decode the next chunk; returns the events it completed
+  push(chunk: Uint8Array | string): SSEEvent[] {
+    return this.feed(typeof chunk === 'string' ? chunk : this.text.decode(chunk, { stream: true }));
+  }
+
+  // End of stream. An event missing its closing blank line is dropped, as
+  // the spec requires.
+  end(): SSEEvent[] {
+    const events = this.feed(this.text.decode());
+    // A trailing CR was held back in case an LF followed
+    if (this.buffer.endsWith('\r')) {
+      const event = this.processLine(this.buffer.slice(0, -1));
+      if (event) events.push(event);
+    }
+    this.buffer = '';
+    this.eventName = '';
+    this.data = [];
+    return events;
+  }
+
+  private feed(text: string): SSEEvent[] {
+    if (!this.started && text) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+    this.buffer += text;
+
+    const events: SSEEvent[] = [];
+    const lineEnd = /\r\n|\r|\n/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+    while ((match = lineEnd.exec(this.buffer))) {
+      // CR as the last character may be the first half of a CRLF
+      if (match[0] === '\r' && match.index === this.buffer.length - 1) break;
+      const event = this.processLine(this.buffer.slice(start, match.index));
+      if (event) events.push(event);
+      start = match.index + match[0].length;
+    }
+    this.buffer = this.buffer.slice(start);
+    return events;
+  }
+
+  private processLine(line: string): SSEEvent | null {
+    if (line === '') return this.dispatch();
+    if (line.startsWith(':')) return null;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventName = value;
+        break;
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = Number(value);
+        break;
+    }
+    return null;
+  }
+
+  private dispatch(): SSEEvent | null {
+    // No data lines: nothing to dispatch, and the name doesn't carry over
+    if (this.data.length === 0) {
+      this.eventName = '';
+      return null;
+    }
+    const event: SSEEvent = { event: this.eventName || 'message', data: this.data.join('\n') };
+    if (this.lastEventId !== undefined) event.id = this.lastEventId;
+    if (this.retry !== undefined) {
+      event.retry = this.retry;
+      this.retry = undefined;
+    }
+    this.eventName = '';
+    this.data = [];
+    return event;
+  }
+}
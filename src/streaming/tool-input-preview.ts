@@ -0,0 +1,29 @@
+import { ARTIFACT_TOOL } from './artifacts';
+
+// The part of a tool's input the UI shows while the call streams in. Shared
+// with the renderer, which reads these same fields.
+
+// Input field shown next to a tool's label, while it streams and after
+export const TOOL_INPUT_FIELDS: Record<string, string> = {
+  'web_search': 'query',
+  'web_fetch': 'url',
+  'bash_tool': 'command',
+  'create_file': 'path',
+  'str_replace': 'path',
+  'view': 'path',
+  'conversation_search': 'query',
+  [ARTIFACT_TOOL]: 'title'
+};
+
+// The shown field of a partial input, plus an artifact's command. Null until
+// one of them has arrived.
+export function toolInputPreview(toolName: string, input: unknown): Record<string, unknown> | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return null;
+  const fields = input as Record<string, unknown>;
+  const keys = [TOOL_INPUT_FIELDS[toolName], toolName === ARTIFACT_TOOL ? 'command' : undefined];
+  const preview: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (key && fields[key] !== undefined) preview[key] = fields[key];
+  }
+  return Object.keys(preview).length > 0 ? preview : null;
+}
@@ -0,0 +1,28 @@
+// Pairing tool results with the calls they answer. Shared by the parser and
+// the renderer so a reply pairs the same way while streaming and after a reload.
+
+export interface ToolCallInfo {
+  toolUseId?: string;
+  name?: string;
+  answered: boolean;
+}
+
+// The call a result answers: the one with its tool_use_id, or when the id is
+// missing or unknown, the latest unanswered call of the same tool (of any
+// tool when the result doesn't name one)
+export function findToolCall<T>(
+  calls: readonly T[],
+  describe: (call: T) => ToolCallInfo,
+  toolUseId: string | undefined,
+  toolName: string | undefined
+): T | undefined {
+  if (toolUseId) {
+    const match = calls.find(call => describe(call).toolUseId === toolUseId);
+    if (match) return match;
+  }
+  for (let i = calls.length - 1; i >= 0; i--) {
+    const call = describe(calls[i]);
+    if (!call.answered && (!toolName || call.name === toolName)) return calls[i];
+  }
+  return undefined;
+}
@@ -1,8 +1,128 @@
+// Backend profile (which server the client talks to)
+export interface BackendProfile {
+  name: string;
+  baseUrl: string;
+  cookieDomain: string;
+  headers?: Record<string, string>;
+  // Start the bundled mock server when this profile is active
+  mockServer?: boolean;
+}
+
 // Settings schema
 export interface SettingsSchema {
   spotlightKeybind: string;
   spotlightPersistHistory: boolean;
   newWindowKeybind: string;
+  backendProfiles: Record<string, BackendProfile>;
+  activeBackendProfile: string;
+  customStyles: ResponseStyle[];
+  defaultTools: ToolToggles;
+  // BCP 47 locale and IANA timezone; empty follows the system
+  locale: string;
+  timezone: string;
+  imageProcessing: ImageProcessingSettings;
+  // Record API traffic for the network inspector
+  networkInspector: boolean;
+  // Save raw completion streams as NDJSON for replay
+  recordStreams: boolean;
+  network: NetworkSettings;
+}
+
+// How requests reach the internet: the system's proxy settings, no proxy,
+// a PAC script or a fixed proxy server
+export type ProxyMode = 'system' | 'direct' | 'pac' | 'fixed';
+
+// Proxy and TLS trust for API requests and the sign-in window
+export interface NetworkSettings {
+  proxyMode: ProxyMode;
+  // PAC script URL (pac mode)
+  pacUrl: string;
+  // Chromium proxy rules, e.g. "proxy.corp:3128" or "https=proxy:8443;http=proxy:8080" (fixed mode)
+  proxyRules: string;
+  // Hosts that skip the proxy, comma separated, e.g. "*.internal,10.0.0.0/8" (fixed mode)
+  bypassList: string;
+  // PEM file of extra CA certificates to trust, e.g. a TLS-inspecting proxy's
+  caBundlePath: string;
+}
+
+// Proxy login, stored encrypted with the OS keychain
+export interface ProxyCredentials {
+  username: string;
+  password: string;
+}
+
+// Outcome of the settings "test connection" action
+export interface ConnectionTestResult {
+  ok: boolean;
+  status?: number;
+  // Proxy Chromium chose for the backend URL ("DIRECT", "PROXY host:port", …)
+  proxy: string;
+  durationMs: number;
+  error?: string;
+}
+
+// Image preprocessing applied before upload
+export interface ImageProcessingSettings {
+  enabled: boolean;
+  // Longest side in pixels; larger images are scaled down
+  maxDimension: number;
+  // JPEG/WebP quality, 1-100
+  quality: number;
+}
+
+// Network inspector capture of one request (headers and bodies redacted)
+export interface NetworkEntry {
+  id: string;
+  method: string;
+  url: string;
+  state: 'pending' | 'complete' | 'failed' | 'aborted';
+  startedAt: number;
+  // Milliseconds since startedAt
+  responseAt?: number;
+  finishedAt?: number;
+  status?: number;
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  requestBodySize: number;
+  responseHeaders: Record<string, string>;
+  responseBody?: string;
+  responseBodySize: number;
+  // Parsed server-sent events for streaming responses
+  events: NetworkEvent[];
+  error?: string;
+}
+
+export interface NetworkEvent {
+  // Milliseconds since the request started
+  time: number;
+  event?: string;
+  // SSE id field, if the stream sets one
+  id?: string;
+  data: string;
+}
+
+// One line of an SSE recording (NDJSON): a header, the raw response chunks
+// as they arrived, then how the stream ended
+export type SSERecordLine =
+  | { type: 'recording'; version: 1; startedAt: string; url: string; conversationId: string; prompt: string }
+  | { type: 'chunk'; t: number; data: string }
+  | { type: 'end'; t: number; reason: 'complete' | 'error' | 'aborted'; error?: string };
+
+// Where and how fast to replay a recording
+export interface ReplayOptions {
+  // Main window to render into (webContents id)
+  windowId: number;
+  // 1 is real time; 0 replays with no delays
+  speed: number;
+}
+
+// Outcome of a replay
+export interface ReplayResult {
+  success: boolean;
+  canceled?: boolean;
+  filePath?: string;
+  chunks?: number;
+  error?: string;
 }
 
 // Store schema for electron-store
@@ -11,9 +131,124 @@ export interface StoreSchema {
   deviceId?: string;
   anonymousId?: string;
   settings: SettingsSchema;
+  conversationPreferences?: Record<string, ConversationPreferences>;
+  accounts?: Record<string, Account>;
+  // Account new windows and Spotlight use
+  defaultAccountId?: string;
+  // Messages waiting for a connection, oldest first
+  outbox?: OutboxItem[];
+  // Proxy credentials encrypted with safeStorage, base64
+  proxyCredentials?: string;
+}
+
+// Organization a signed-in user belongs to
+export interface Organization {
+  uuid: string;
+  name: string;
+  capabilities?: string[];
+}
+
+// Signed-in account. Each one keeps its cookies in its own session partition
+// (empty for the default session used before accounts existed).
+export interface Account {
+  id: string;
+  // Backend profile the account signed in to
+  backend: string;
+  partition: string;
+  orgId: string;
+  organizations: Organization[];
+}
+
+// Account summary for the renderer's switcher
+export interface AccountInfo {
+  id: string;
+  orgId: string;
+  orgName: string;
+  organizations: Organization[];
+}
+
+export interface AccountList {
+  accounts: AccountInfo[];
+  // Account and org the asking window is bound to
+  currentAccountId: string | null;
+  currentOrgId: string | null;
+}
+
+// Response style, sent as personalized_styles in the completion body
+export interface ResponseStyle {
+  type: 'default' | 'custom';
+  key: string;
+  name: string;
+  prompt: string;
+  summary: string;
+  nameKey?: string;
+  summaryKey?: string;
+  isDefault?: boolean;
+}
+
+// Tools that can be enabled for a completion
+export type ToolName = 'web_search' | 'artifacts' | 'repl';
+
+export type ToolToggles = Record<ToolName, boolean>;
+
+// Extended thinking for a conversation
+export interface ThinkingPreference {
+  enabled: boolean;
+  budgetTokens: number;
 }
 
-// File attachment payloads
+// Composer choices remembered per conversation
+export interface ConversationPreferences {
+  styleKey?: string;
+  // Only the tools that differ from the defaults in settings
+  tools?: Partial<ToolToggles>;
+  thinking?: ThinkingPreference;
+}
+
+// Per-message options for send-message
+export interface SendMessageOptions {
+  styleKey?: string;
+  tools?: Partial<ToolToggles>;
+  thinking?: ThinkingPreference;
+}
+
+// Result of send-message
+export interface SendMessageResult {
+  text?: string;
+  messageUuid?: string;
+  aborted?: boolean;
+  // The reply stopped without a stop_reason
+  truncated?: boolean;
+  error?: ApiErrorInfo;
+  // The message never reached the server for lack of a connection
+  offline?: boolean;
+}
+
+// Message composed while offline, sent once the connection is back
+export interface OutboxItem {
+  id: string;
+  accountId: string;
+  orgId: string;
+  conversationId: string;
+  // Create the conversation first (composed on the home screen)
+  newConversation?: { model?: string; projectUuid?: string };
+  message: string;
+  parentMessageUuid: string;
+  attachments: AttachmentPayload[];
+  options: SendMessageOptions;
+  createdAt: string;
+  status: 'queued' | 'sending' | 'failed';
+  error?: ApiErrorInfo;
+}
+
+// Outbox contents plus the connectivity it's waiting on
+export interface OutboxState {
+  online: boolean;
+  items: OutboxItem[];
+}
+
+// File attachment payloads. Text files read locally have an empty
+// document_id and carry their text in extracted_content instead.
 export interface AttachmentPayload {
   document_id: string;
   file_name: string;
@@ -23,11 +258,40 @@ export interface AttachmentPayload {
   extracted_content?: string;
 }
 
+// Inline text attachment (completion `attachments[]`, message history)
+export interface InlineAttachment {
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  extracted_content: string;
+}
+
+// Either the bytes, or the path of a file on disk to read them from
 export interface UploadFilePayload {
   name: string;
   size: number;
   type: string;
-  data: ArrayBuffer | Buffer | Uint8Array | number[];
+  data?: ArrayBuffer | Buffer | Uint8Array | number[];
+  path?: string;
+}
+
+// File to upload, tagged so progress and results can be matched up
+export interface UploadRequest extends UploadFilePayload {
+  uploadId: string;
+}
+
+// Bytes of a file sent so far
+export interface UploadProgress {
+  uploadId: string;
+  loaded: number;
+  total: number;
+}
+
+// Outcome of one upload; failures don't fail the rest of the batch
+export interface UploadResult {
+  uploadId: string;
+  attachment?: AttachmentPayload;
+  error?: ApiErrorInfo;
 }
 
 // Citation tracking (matches Claude's citation_start_delta/citation_end_delta)
@@ -55,6 +319,7 @@ export interface ContentBlock {
   start_timestamp?: string;
   stop_timestamp?: string;
   // Tool use blocks
+  id?: string;
   name?: string;
   partial_json?: string;
   buffered_input?: string;
@@ -85,6 +350,7 @@ export interface Step {
   start_timestamp?: string;
   stop_timestamp?: string;
   // Tool
+  toolUseId?: string;
   toolName?: string;
   toolInput?: string;
   toolMessage?: string;
@@ -108,6 +374,97 @@ export interface WebSearchResult {
   };
 }
 
+// Artifact tool call (artifacts_v0): create a new artifact, replace one
+// string in it, or replace all of it
+export type ArtifactCommand = 'create' | 'update' | 'rewrite';
+
+export interface ArtifactOperation {
+  command: ArtifactCommand;
+  id: string;
+  // MIME-like kind, e.g. text/markdown, text/html, application/vnd.ant.code
+  type?: string;
+  title?: string;
+  language?: string;
+  // create and rewrite
+  content?: string;
+  // update
+  oldStr?: string;
+  newStr?: string;
+}
+
+// Content of an artifact after one operation
+export interface ArtifactVersion {
+  command: ArtifactCommand;
+  content: string;
+  title: string;
+  // Assistant message and tool call that produced it
+  messageUuid?: string;
+  toolUseId?: string;
+  // An update whose old text wasn't found; content is unchanged
+  failed?: boolean;
+}
+
+export interface Artifact {
+  id: string;
+  type: string;
+  language?: string;
+  // Oldest first; the last one is current
+  versions: ArtifactVersion[];
+}
+
+// How a completion stream ended: with a stop_reason, cut off without one,
+// on an error (an `error` event or a dropped connection), or stopped by us
+export type StreamEndReason = 'completed' | 'truncated' | 'errored' | 'aborted';
+
+// Error reported by the stream itself, or an event that couldn't be read
+export interface StreamError {
+  // Server error type (overloaded_error, rate_limit_error, …), invalid_event
+  // for unparseable data, replay_error for a recording that couldn't be played
+  // back, or the ApiErrorKind of a connection failure
+  type: string;
+  message: string;
+}
+
+// Typed API failure, safe to send over IPC
+export type ApiErrorKind = 'network' | 'rate_limited' | 'server' | 'http' | 'aborted';
+
+export interface ApiErrorInfo {
+  kind: ApiErrorKind;
+  status?: number;
+  message: string;
+  retryAfterMs?: number;
+  attempts: number;
+  usageLimit?: UsageLimit;
+}
+
+// Emitted before each retry so the UI can show "retrying in 8s…"
+export interface RetryNotice {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: ApiErrorInfo;
+}
+
+// Message quota as reported by the server (message_limit events, rate-limit errors)
+export type UsageLimitStatus = 'within_limit' | 'approaching_limit' | 'exceeded_limit';
+
+export interface UsageLimit {
+  status: UsageLimitStatus;
+  // Messages left in the current window, when the server says
+  remaining?: number;
+  // When the window resets (epoch ms)
+  resetsAt?: number;
+  // The limit applies to the model in use rather than the whole account
+  perModelLimit?: boolean;
+}
+
+// Latest quota known for an org, pushed to its windows
+export interface QuotaState {
+  orgId: string;
+  limit: UsageLimit | null;
+  updatedAt: number;
+}
+
 // API response types
 export interface ApiResponse<T = unknown> {
   status: number;
@@ -115,15 +472,197 @@ export interface ApiResponse<T = unknown> {
   stream?: NodeJS.ReadableStream;
 }
 
-export interface ConversationData {
+// Conversation list entry (GET chat_conversations)
+export interface ConversationSummary {
   uuid: string;
-  name?: string;
+  name: string;
+  summary?: string;
   model?: string;
+  is_starred: boolean;
+  project_uuid?: string;
+  created_at?: string;
+  updated_at: string;
+}
+
+// One page of the conversation list
+export interface ConversationPage {
+  conversations: ConversationSummary[];
+  offset: number;
+  nextOffset: number;
+  hasMore: boolean;
+}
+
+// Image/preview variant attached to a stored file
+export interface FileAsset {
+  url: string;
+  file_variant?: string;
+  primary_color?: string;
+  image_width?: number;
+  image_height?: number;
+}
+
+// File attached to a stored message
+export interface MessageFile {
+  file_kind: string;
+  file_uuid: string;
+  file_name: string;
+  created_at?: string;
+  thumbnail_url?: string;
+  preview_url?: string;
+  thumbnail_asset?: FileAsset;
+  preview_asset?: FileAsset;
+}
+
+// Citation as stored on a text block
+export interface MessageCitation {
+  uuid?: string;
+  url?: string;
+  title?: string;
+  start_index?: number;
+  end_index?: number;
+}
+
+// Content block of a stored message (rendering_mode=messages)
+export interface MessageContentBlock {
+  type: string;
+  text?: string;
+  thinking?: string;
+  summaries?: Array<{ summary: string }>;
+  // tool_use id, and the call a tool_result answers
+  id?: string;
+  tool_use_id?: string;
+  name?: string;
+  message?: string;
+  display_content?: { text?: string };
+  input?: unknown;
+  content?: unknown[];
+  is_error?: boolean;
+  citations?: MessageCitation[];
+  start_timestamp?: string;
+  stop_timestamp?: string;
+  cut_off?: boolean;
+}
+
+// Stored message in a conversation tree
+export interface ChatMessage {
+  uuid: string;
+  sender: 'human' | 'assistant';
+  content?: MessageContentBlock[];
+  text?: string;
+  created_at?: string;
+  parent_message_uuid?: string;
+  files?: MessageFile[];
+  files_v2?: MessageFile[];
+  attachments?: InlineAttachment[];
+}
+
+// Full conversation (GET chat_conversations/{id}?tree=True)
+export interface ConversationTree extends ConversationSummary {
+  chat_messages: ChatMessage[];
+  current_leaf_message_uuid?: string;
+}
+
+// Conversation as returned by load-conversation, with its artifacts as of
+// the current branch
+export interface LoadedConversation extends ConversationTree {
+  artifacts: Artifact[];
+}
+
+// Upload endpoint response (POST /api/{org}/upload)
+export interface UploadResponse {
+  file_uuid: string;
+  file_name: string;
+  size_bytes?: number;
+  file_kind?: string;
+  file_type?: string;
+  preview_url?: string;
+  thumbnail_url?: string;
+  extracted_content?: string;
+}
+
+// Project list entry (GET projects)
+export interface Project {
+  uuid: string;
+  name: string;
+  description?: string;
+  // Custom instructions applied to every chat in the project
+  prompt_template?: string;
+  is_private?: boolean;
+  is_starred?: boolean;
+  archived_at?: string;
   created_at?: string;
   updated_at?: string;
 }
 
-export interface CreateConversationResponse extends ConversationData {
+// Text knowledge document (GET projects/{id}/docs)
+export interface ProjectDoc {
+  uuid: string;
+  file_name: string;
+  content?: string;
+  created_at?: string;
+}
+
+// Uploaded knowledge file such as an image (GET projects/{id}/files)
+export interface ProjectFile {
+  file_uuid: string;
+  file_name: string;
+  file_kind?: string;
+  created_at?: string;
+  thumbnail_url?: string;
+  preview_url?: string;
+}
+
+// A project opened with its knowledge and chats
+export interface ProjectDetail extends Project {
+  docs: ProjectDoc[];
+  files: ProjectFile[];
+  conversations: ConversationSummary[];
+}
+
+// Styles endpoint response (GET list_styles)
+export interface StyleList {
+  defaultStyles: ResponseStyle[];
+  customStyles: ResponseStyle[];
+}
+
+// Model entry (GET models)
+export interface ServerModel {
+  model: string;
+  name: string;
+  description?: string;
+  supports_thinking?: boolean;
+  supports_vision?: boolean;
+  context_window?: number;
+  is_default?: boolean;
+}
+
+// Model the org can chat with, with what it supports
+export interface ModelInfo {
+  id: string;
+  name: string;
+  description?: string;
+  thinking: boolean;
+  vision: boolean;
+  contextWindow: number;
+}
+
+// Models for an org plus the ones used by default
+export interface ModelCatalog {
+  models: ModelInfo[];
+  // New chats from the main window
+  defaultModel: string;
+  // Spotlight quick queries
+  quickModel: string;
+  // Bundled when the server list couldn't be fetched
+  source: 'server' | 'bundled';
+}
+
+// Title endpoint response
+export interface TitleResponse {
+  title: string;
+}
+
+export interface CreateConversationResponse extends ConversationSummary {
   conversationId: string;
   parentMessageUuid: string;
 }